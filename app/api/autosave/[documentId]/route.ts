@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import {
+	isDocumentId,
+	readAutosave,
+	writeAutosave,
+} from "@/lib/autosave-store";
+import type { FieldTemplate } from "@/lib/templates";
+import { TEMPLATE_VERSION } from "@/lib/templates";
+
+type Params = { params: Promise<{ documentId: string }> };
+
+// Fetch the autosaved layout of a document
+export async function GET(_request: Request, { params }: Params) {
+	const { documentId } = await params;
+	const record = await readAutosave(documentId);
+	if (!record) {
+		return NextResponse.json({ error: "Nothing saved yet" }, { status: 404 });
+	}
+	return NextResponse.json(record);
+}
+
+// Autosave a document's layout. Answers 409 with the stored record when it is
+// newer than the save the client based its changes on.
+export async function PUT(request: Request, { params }: Params) {
+	const { documentId } = await params;
+	if (!isDocumentId(documentId)) {
+		return NextResponse.json({ error: "Invalid document id" }, { status: 400 });
+	}
+
+	let body: { template: FieldTemplate; baseSavedAt: string | null };
+	try {
+		body = await request.json();
+	} catch {
+		return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+	}
+
+	const { template, baseSavedAt } = body ?? {};
+	if (
+		template?.version !== TEMPLATE_VERSION ||
+		!Array.isArray(template.fields) ||
+		(baseSavedAt !== null && typeof baseSavedAt !== "string")
+	) {
+		return NextResponse.json(
+			{ error: `Expected a version ${TEMPLATE_VERSION} template` },
+			{ status: 400 },
+		);
+	}
+
+	const result = await writeAutosave(documentId, template, baseSavedAt);
+	return NextResponse.json(result.record, {
+		status: result.status === "conflict" ? 409 : 200,
+	});
+}
@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import { MAX_DATASET_ROWS } from "@/lib/mail-merge";
+import {
+	appendToMerge,
+	finishMerge,
+	lockMerge,
+	mergeEntryNames,
+} from "@/lib/mail-merge-store";
+import type { ZipEntry } from "@/lib/zip";
+
+type Params = { params: Promise<{ id: string }> };
+
+// Name of the report listing skipped rows, inside the archive
+const REPORT_NAME = "merge-report.json";
+
+// Add a batch of filled documents, and the report of rows that were skipped,
+// to a mail merge. Batches are added one at a time.
+export async function POST(request: Request, { params }: Params) {
+	const { id } = await params;
+	const release = lockMerge(id);
+	if (!release) {
+		return NextResponse.json(
+			{ error: "Another batch is being added to this merge" },
+			{ status: 409 },
+		);
+	}
+	try {
+		return await appendBatch(request, id);
+	} finally {
+		release();
+	}
+}
+
+async function appendBatch(request: Request, id: string) {
+	const names = await mergeEntryNames(id);
+	if (!names) {
+		return NextResponse.json({ error: "Merge not found" }, { status: 404 });
+	}
+
+	let form: FormData;
+	try {
+		form = await request.formData();
+	} catch {
+		return NextResponse.json({ error: "Invalid form data" }, { status: 400 });
+	}
+
+	const documents = form
+		.getAll("documents")
+		.filter((entry): entry is File => entry instanceof File);
+	const documentCount = names.filter((name) => name !== REPORT_NAME).length;
+	if (documentCount + documents.length > MAX_DATASET_ROWS) {
+		return NextResponse.json(
+			{ error: `At most ${MAX_DATASET_ROWS} PDF documents can be merged` },
+			{ status: 400 },
+		);
+	}
+
+	const taken = new Set(names);
+	const entries: ZipEntry[] = [];
+	for (const document of documents) {
+		// Keep entries at the top of the archive
+		const name = document.name.replace(/^.*[\\/]/, "");
+		if (!name.toLowerCase().endsWith(".pdf") || taken.has(name)) {
+			return NextResponse.json(
+				{ error: `Invalid or duplicate document name: ${name}` },
+				{ status: 400 },
+			);
+		}
+		taken.add(name);
+		entries.push({ name, data: new Uint8Array(await document.arrayBuffer()) });
+	}
+
+	const report = form.get("report");
+	if (typeof report === "string" && report && !taken.has(REPORT_NAME)) {
+		entries.push({ name: REPORT_NAME, data: Buffer.from(report, "utf8") });
+	}
+
+	if (!(await appendToMerge(id, entries))) {
+		return NextResponse.json({ error: "Merge not found" }, { status: 404 });
+	}
+	return NextResponse.json({ count: documentCount + documents.length });
+}
+
+// Download the merge as a zip. The merge is removed once it is downloaded.
+export async function GET(_request: Request, { params }: Params) {
+	const { id } = await params;
+	const merge = await finishMerge(id);
+	if (!merge) {
+		return NextResponse.json({ error: "Merge not found" }, { status: 404 });
+	}
+	return new NextResponse(merge.archive, {
+		headers: {
+			"Content-Type": "application/zip",
+			"Content-Disposition": `attachment; filename="${merge.name}.zip"`,
+		},
+	});
+}
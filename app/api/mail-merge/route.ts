@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { createMerge } from "@/lib/mail-merge-store";
+
+// Start a mail merge. The filled documents are then posted in batches to
+// /api/mail-merge/<id>, and the zip is downloaded from there.
+export async function POST(request: Request) {
+	let body: { name?: unknown };
+	try {
+		body = await request.json();
+	} catch {
+		return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+	}
+
+	const name = String(body?.name ?? "")
+		.replace(/[^\w.-]+/g, "_")
+		.replace(/^$/, "mail-merge");
+	return NextResponse.json({ id: await createMerge(name) }, { status: 201 });
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import {
+	deleteSignature,
+	readSignature,
+	renameSignature,
+} from "@/lib/signature-store";
+
+type Params = { params: Promise<{ id: string }> };
+
+// Fetch a single saved signature
+export async function GET(_request: Request, { params }: Params) {
+	const { id } = await params;
+	const signature = await readSignature(id);
+	if (!signature) {
+		return NextResponse.json({ error: "Signature not found" }, { status: 404 });
+	}
+	return NextResponse.json(signature);
+}
+
+// Rename a saved signature
+export async function PATCH(request: Request, { params }: Params) {
+	const { id } = await params;
+
+	let body: { name: string };
+	try {
+		body = await request.json();
+	} catch {
+		return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+	}
+	if (typeof body?.name !== "string" || !body.name.trim()) {
+		return NextResponse.json({ error: "Expected a name" }, { status: 400 });
+	}
+
+	const signature = await renameSignature(id, body.name.trim());
+	if (!signature) {
+		return NextResponse.json({ error: "Signature not found" }, { status: 404 });
+	}
+	return NextResponse.json(signature);
+}
+
+export async function DELETE(_request: Request, { params }: Params) {
+	const { id } = await params;
+	if (!(await deleteSignature(id))) {
+		return NextResponse.json({ error: "Signature not found" }, { status: 404 });
+	}
+	return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { listSignatures, saveSignature } from "@/lib/signature-store";
+import {
+	MAX_SIGNATURE_IMAGE_LENGTH,
+	type NewSignature,
+	SIGNATURE_KINDS,
+} from "@/lib/signatures";
+
+// List saved signatures and initials
+export async function GET() {
+	return NextResponse.json(await listSignatures());
+}
+
+// Save a drawn, typed or uploaded signature
+export async function POST(request: Request) {
+	let signature: NewSignature;
+	try {
+		signature = await request.json();
+	} catch {
+		return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+	}
+
+	if (
+		!SIGNATURE_KINDS.includes(signature?.kind) ||
+		typeof signature.name !== "string" ||
+		!signature.name.trim() ||
+		typeof signature.image !== "string" ||
+		!signature.image.startsWith("data:image/png;base64,") ||
+		signature.image.length > MAX_SIGNATURE_IMAGE_LENGTH ||
+		!(signature.width > 0) ||
+		!(signature.height > 0)
+	) {
+		return NextResponse.json(
+			{ error: "Expected a named signature or initials with a PNG image" },
+			{ status: 400 },
+		);
+	}
+
+	const { name, kind, image, width, height } = signature;
+	return NextResponse.json(
+		await saveSignature({ name: name.trim(), kind, image, width, height }),
+		{ status: 201 },
+	);
+}
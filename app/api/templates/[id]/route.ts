@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { readTemplate } from "@/lib/template-store";
+
+// Fetch a single saved template
+export async function GET(
+	_request: Request,
+	{ params }: { params: Promise<{ id: string }> },
+) {
+	const { id } = await params;
+	const template = await readTemplate(id);
+	if (!template) {
+		return NextResponse.json({ error: "Template not found" }, { status: 404 });
+	}
+	return NextResponse.json(template);
+}
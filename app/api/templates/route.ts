@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { listTemplates, saveTemplate } from "@/lib/template-store";
+import { type FieldTemplate, TEMPLATE_VERSION } from "@/lib/templates";
+
+// List saved templates
+export async function GET() {
+	return NextResponse.json(await listTemplates());
+}
+
+// Save a template exported from the viewer
+export async function POST(request: Request) {
+	let template: FieldTemplate;
+	try {
+		template = await request.json();
+	} catch {
+		return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+	}
+
+	if (
+		template?.version !== TEMPLATE_VERSION ||
+		typeof template.name !== "string" ||
+		!template.name.trim() ||
+		!Array.isArray(template.fields) ||
+		!Array.isArray(template.pages)
+	) {
+		return NextResponse.json(
+			{ error: `Expected a version ${TEMPLATE_VERSION} template with a name` },
+			{ status: 400 },
+		);
+	}
+
+	return NextResponse.json(await saveTemplate(template), { status: 201 });
+}
@@ -1,5 +1,6 @@
 import type { Metadata } from 'next';
 import Script from 'next/script';
+import { NUTRIENT_ASSETS_PATH } from '@/lib/nutrient-assets';
 import './globals.css';
 
 export const metadata: Metadata = {
@@ -15,8 +16,7 @@ export default function RootLayout({
   return (
     <html lang='en'>
       <head>
-        <link rel='preconnect' href='https://cdn.cloud.pspdfkit.com' />
-        <Script src='https://cdn.cloud.pspdfkit.com/pspdfkit-web@1.2.0/nutrient-viewer.js' strategy='beforeInteractive' />
+        <Script src={`${NUTRIENT_ASSETS_PATH}nutrient-viewer.js`} strategy='beforeInteractive' />
       </head>
       <body>{children}</body>
     </html>
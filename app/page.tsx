@@ -1,19 +1,86 @@
 "use client";
-import Image from "next/image";
-import { useState } from "react";
-import Viewer from "@/components/viewer";
+import type { Instance } from "@nutrient-sdk/viewer";
+import { useRef, useState } from "react";
+import ArrangePanel from "@/components/arrange-panel";
+import AuditLogPanel from "@/components/audit-log-panel";
+import AutosaveStatus from "@/components/autosave-status";
+import CollaborationPanel from "@/components/collaboration-panel";
+import DateSignedPanel from "@/components/date-signed-panel";
+import DebugPanel from "@/components/debug-panel";
+import ExportMenu from "@/components/export-menu";
+import FieldDetectionPanel from "@/components/field-detection-panel";
+import FieldInspector from "@/components/field-inspector";
+import FieldOutline from "@/components/field-outline";
+import FieldPalette from "@/components/field-palette";
+import HistoryControls from "@/components/history-controls";
+import MailMergePanel from "@/components/mail-merge-panel";
+import PlacementSettings from "@/components/placement-settings";
+import RecipientManager from "@/components/recipient-manager";
+import SignatureLibrary from "@/components/signature-library";
+import SigningPanel from "@/components/signing-panel";
+import TemplatePanel from "@/components/template-panel";
+import ToastArea from "@/components/toast-area";
+import ValidationPanel from "@/components/validation-panel";
+import Viewer, {
+	type FieldCreatedEvent,
+	type ViewerHandle,
+} from "@/components/viewer";
+import type { AuditEvent } from "@/lib/audit-trail";
+import {
+	type DateSignedFormat,
+	DEFAULT_DATE_SIGNED_FORMAT,
+} from "@/lib/date-signed";
+import { createDiagnosticChannel, toError } from "@/lib/diagnostics";
+import { type OpenDocument, readDocumentFile } from "@/lib/document-files";
+import { getFieldType } from "@/lib/field-types";
+import { startPointerDrag } from "@/lib/pointer-drag";
+import { createRecipient, type Recipient } from "@/lib/recipients";
+
+// Audit trail actor for changes made while building the form
+const PREPARER = "Document preparer";
+
+// How far a touch has to travel before it counts as a drag rather than a tap
+const POINTER_DRAG_THRESHOLD = 8;
 
 export default function Home() {
 	const [draggingItem, setDraggingItem] = useState<string | null>(null);
+	const [armedItem, setArmedItem] = useState<string | null>(null);
+	const [announcement, setAnnouncement] = useState("");
+	const viewerRef = useRef<ViewerHandle>(null);
+	// Touch drag in progress, and whether it moved far enough to not be a tap
+	const pointerDragRef = useRef<{ moved: boolean } | null>(null);
+	const suppressArmRef = useRef(false);
 	const [formCreatorMode, setFormCreatorMode] = useState(false);
+	// Guided fill-and-sign for the active recipient
+	const [signingMode, setSigningMode] = useState(false);
+	const [instance, setInstance] = useState<Instance | null>(null);
+	const [openDocument, setOpenDocument] = useState<OpenDocument | null>(null);
+	const [snapGrid, setSnapGrid] = useState<number | null>(null);
+	const [smartGuides, setSmartGuides] = useState(true);
+	const [dateSignedFormat, setDateSignedFormat] = useState<DateSignedFormat>(
+		DEFAULT_DATE_SIGNED_FORMAT,
+	);
+	const [recipients, setRecipients] = useState<Recipient[]>(() => [
+		createRecipient([]),
+	]);
+	const [activeRecipientId, setActiveRecipientId] = useState(
+		() => recipients[0].id,
+	);
+	const activeRecipient =
+		recipients.find(({ id }) => id === activeRecipientId) ?? recipients[0];
+	const [auditEvents, setAuditEvents] = useState<AuditEvent[]>([]);
+	// What the viewer and the page did and what went wrong, for the toasts and
+	// the debug panel
+	const [diagnostics] = useState(createDiagnosticChannel);
 
 	// Handle drag start event
 	const handleDragStart = (
-		event: React.DragEvent<HTMLDivElement>,
+		event: React.DragEvent<HTMLButtonElement>,
 		annotationType: string,
 	) => {
-		// Only allow drag when Form Creator mode is enabled
-		if (!formCreatorMode) {
+		// Only allow drag when Form Creator mode is enabled, and leave touch
+		// drags to the pointer-events path
+		if (!formCreatorMode || pointerDragRef.current) {
 			event.preventDefault();
 			return;
 		}
@@ -32,9 +99,98 @@ export default function Home() {
 		setDraggingItem(null);
 	};
 
+	// Drag with touch or pen, where HTML5 drag and drop doesn't fire
+	const handlePointerDragStart = (
+		event: React.PointerEvent<HTMLButtonElement>,
+		fieldType: string,
+	) => {
+		const drag = { moved: false };
+		const startX = event.clientX;
+		const startY = event.clientY;
+		pointerDragRef.current = drag;
+
+		const endDrag = () => {
+			pointerDragRef.current = null;
+			setDraggingItem(null);
+			// The tap that ends a drag must not also arm the tile
+			suppressArmRef.current = drag.moved;
+		};
+
+		startPointerDrag(event, getFieldType(fieldType)?.label ?? fieldType, {
+			onMove: (clientX, clientY) => {
+				if (
+					!drag.moved &&
+					Math.hypot(clientX - startX, clientY - startY) <
+						POINTER_DRAG_THRESHOLD
+				) {
+					return;
+				}
+				if (!drag.moved) setDraggingItem(fieldType);
+				drag.moved = true;
+				viewerRef.current?.previewFieldAt(fieldType, clientX, clientY);
+			},
+			onDrop: (clientX, clientY) => {
+				endDrag();
+				if (drag.moved) {
+					viewerRef.current?.dropFieldAt(fieldType, clientX, clientY);
+				}
+			},
+			onCancel: () => {
+				endDrag();
+				viewerRef.current?.clearPreview();
+			},
+		});
+	};
+
+	// Arm a field type for click or keyboard placement, or disarm it again
+	const handleArm = (fieldType: string) => {
+		if (suppressArmRef.current) {
+			suppressArmRef.current = false;
+			return;
+		}
+		if (armedItem === fieldType) {
+			setArmedItem(null);
+			setAnnouncement("Placement cancelled");
+			return;
+		}
+		setArmedItem(fieldType);
+		setAnnouncement(
+			`${getFieldType(fieldType)?.label ?? fieldType} armed. Click a page, or use the arrow keys and Enter to place it. Press Escape to cancel.`,
+		);
+	};
+
+	// Announce placements from drops, clicks and the keyboard alike
+	const handleFieldCreated = ({ definition, pageIndex }: FieldCreatedEvent) => {
+		setAnnouncement(`${definition.label} placed on page ${pageIndex + 1}`);
+	};
+
+	// Open a PDF picked from disk or dropped onto the viewer
+	const openFile = async (file: File) => {
+		try {
+			setOpenDocument(await readDocumentFile(file));
+		} catch (error) {
+			diagnostics.report({
+				level: "error",
+				code: "file-read-failed",
+				message: `Could not read ${file.name}`,
+				error: toError(error),
+				retry: () => openFile(file),
+			});
+		}
+	};
+
 	// Toggle Form Creator Mode
 	const toggleFormCreatorMode = () => {
 		setFormCreatorMode(!formCreatorMode);
+		setSigningMode(false);
+		setArmedItem(null);
+	};
+
+	// Signing and form building are exclusive
+	const startSigning = () => {
+		setFormCreatorMode(false);
+		setArmedItem(null);
+		setSigningMode(true);
 	};
 
 	return (
@@ -43,6 +199,43 @@ export default function Home() {
 			<div className="w-64 bg-gray-100 border-r border-gray-200 p-4 overflow-y-auto">
 				<h1 className="text-xl font-bold mb-4">Annotation Tools</h1>
 
+				{/* Document picker */}
+				<div className="mb-4 pb-4 border-b border-gray-200">
+					<label className="block text-sm">
+						<span className="block mb-1 font-medium">Document</span>
+						<input
+							type="file"
+							accept="application/pdf,.pdf"
+							className="w-full text-sm"
+							onChange={(e) => {
+								const file = e.target.files?.[0];
+								if (file) openFile(file);
+								e.target.value = "";
+							}}
+						/>
+					</label>
+					{openDocument && (
+						<p className="mt-1 text-xs text-gray-600 truncate">
+							{openDocument.name}
+						</p>
+					)}
+				</div>
+
+				<AutosaveStatus
+					instance={instance}
+					document={openDocument}
+					recipients={recipients}
+					onRecipientsChange={setRecipients}
+					onDiagnostic={diagnostics.report}
+				/>
+
+				<CollaborationPanel
+					instance={instance}
+					document={openDocument}
+					enabled={formCreatorMode}
+					onDiagnostic={diagnostics.report}
+				/>
+
 				{/* Form Creator Mode Toggle */}
 				<div className="mb-4 pb-4 border-b border-gray-200">
 					<label className="inline-flex items-center cursor-pointer">
@@ -57,6 +250,102 @@ export default function Home() {
 					</label>
 				</div>
 
+				<SigningPanel
+					instance={instance}
+					signer={activeRecipient}
+					active={signingMode}
+					onStart={startSigning}
+					onExit={() => setSigningMode(false)}
+					onDiagnostic={diagnostics.report}
+				/>
+
+				<SignatureLibrary
+					instance={instance}
+					signer={activeRecipient}
+					onDiagnostic={diagnostics.report}
+				/>
+
+				<HistoryControls
+					instance={instance}
+					onDiagnostic={diagnostics.report}
+				/>
+
+				<RecipientManager
+					instance={instance}
+					recipients={recipients}
+					activeRecipientId={activeRecipient.id}
+					onRecipientsChange={setRecipients}
+					onActiveRecipientChange={setActiveRecipientId}
+					onDiagnostic={diagnostics.report}
+				/>
+
+				<FieldOutline
+					instance={instance}
+					recipients={recipients}
+					onDiagnostic={diagnostics.report}
+				/>
+
+				<FieldInspector instance={instance} onDiagnostic={diagnostics.report} />
+
+				<ArrangePanel
+					instance={instance}
+					enabled={formCreatorMode}
+					recipients={recipients}
+					onDiagnostic={diagnostics.report}
+				/>
+
+				<DateSignedPanel
+					instance={instance}
+					format={dateSignedFormat}
+					onFormatChange={setDateSignedFormat}
+					onDiagnostic={diagnostics.report}
+				/>
+
+				<TemplatePanel
+					instance={instance}
+					recipients={recipients}
+					onRecipientsChange={setRecipients}
+					onDiagnostic={diagnostics.report}
+				/>
+
+				<MailMergePanel
+					instance={instance}
+					documentName={openDocument?.name ?? "document.pdf"}
+					onDiagnostic={diagnostics.report}
+				/>
+
+				<ValidationPanel
+					instance={instance}
+					recipients={recipients}
+					onDiagnostic={diagnostics.report}
+				/>
+
+				<ExportMenu
+					instance={instance}
+					documentName={openDocument?.name ?? "document.pdf"}
+					auditEvents={auditEvents}
+					recipients={recipients}
+					onDiagnostic={diagnostics.report}
+				/>
+
+				<AuditLogPanel
+					instance={instance}
+					documentName={openDocument?.name ?? "document.pdf"}
+					actor={signingMode ? activeRecipient.name : PREPARER}
+					mode={
+						signingMode
+							? "signing"
+							: formCreatorMode
+								? "Form Creator mode"
+								: "viewing"
+					}
+					events={auditEvents}
+					onEventsChange={setAuditEvents}
+					onDiagnostic={diagnostics.report}
+				/>
+
+				<DebugPanel diagnostics={diagnostics} />
+
 				{/* Status message when Form Creator mode is disabled */}
 				{!formCreatorMode && (
 					<div className="mb-4 p-2 bg-gray-200 text-gray-700 text-sm rounded">
@@ -64,95 +353,70 @@ export default function Home() {
 					</div>
 				)}
 
-				{/* Annotation Items */}
-				<div className="space-y-4">
-					{/* biome-ignore lint/a11y/noStaticElementInteractions: Drag and drop functionality requires interaction handlers */}
-					<div
-						role="presentation"
-						className={`p-3 bg-white rounded-lg shadow-sm border border-gray-200 ${formCreatorMode ? "cursor-grab hover:bg-gray-50" : "cursor-not-allowed opacity-50"} ${draggingItem === "Signature" ? "opacity-50" : ""}`}
-						draggable={formCreatorMode}
-						onDragStart={(e) => handleDragStart(e, "Signature")}
-						onDragEnd={handleDragEnd}
-					>
-						<div className="flex items-center">
-							<div className="w-8 h-8 flex items-center justify-center mr-3">
-								<Image src="/file.svg" alt="Signature" width={24} height={24} />
-							</div>
-							<span className="font-medium">Signature</span>
-						</div>
-					</div>
+				<PlacementSettings
+					snapGrid={snapGrid}
+					smartGuides={smartGuides}
+					onSnapGridChange={setSnapGrid}
+					onSmartGuidesChange={setSmartGuides}
+				/>
 
-					{/* biome-ignore lint/a11y/noStaticElementInteractions: Drag and drop functionality requires interaction handlers */}
-					<div
-						role="presentation"
-						className={`p-3 bg-white rounded-lg shadow-sm border border-gray-200 ${formCreatorMode ? "cursor-grab hover:bg-gray-50" : "cursor-not-allowed opacity-50"} ${draggingItem === "DateSigned" ? "opacity-50" : ""}`}
-						draggable={formCreatorMode}
-						onDragStart={(e) => handleDragStart(e, "DateSigned")}
-						onDragEnd={handleDragEnd}
-					>
-						<div className="flex items-center">
-							<div className="w-8 h-8 flex items-center justify-center mr-3">
-								<svg
-									className="w-5 h-5 text-gray-600"
-									fill="none"
-									stroke="currentColor"
-									viewBox="0 0 24 24"
-									xmlns="http://www.w3.org/2000/svg"
-									aria-label="Calendar icon"
-								>
-									<title>Calendar icon</title>
-									<path
-										strokeLinecap="round"
-										strokeLinejoin="round"
-										strokeWidth={2}
-										d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
-									/>
-								</svg>
-							</div>
-							<span className="font-medium">Date Signed</span>
-						</div>
-					</div>
+				<FieldDetectionPanel
+					instance={instance}
+					enabled={formCreatorMode}
+					onPlaceField={async (fieldType, pageIndex, boundingBox) =>
+						(await viewerRef.current?.placeField(
+							fieldType,
+							pageIndex,
+							boundingBox,
+						)) ?? false
+					}
+					onDiagnostic={diagnostics.report}
+				/>
 
-					{/* biome-ignore lint/a11y/noStaticElementInteractions: Drag and drop functionality requires interaction handlers */}
-					<div
-						role="presentation"
-						className={`p-3 bg-white rounded-lg shadow-sm border border-gray-200 ${formCreatorMode ? "cursor-grab hover:bg-gray-50" : "cursor-not-allowed opacity-50"} ${draggingItem === "Initials" ? "opacity-50" : ""}`}
-						draggable={formCreatorMode}
-						onDragStart={(e) => handleDragStart(e, "Initials")}
-						onDragEnd={handleDragEnd}
-					>
-						<div className="flex items-center">
-							<div className="w-8 h-8 flex items-center justify-center mr-3">
-								<svg
-									className="w-5 h-5 text-gray-600"
-									fill="none"
-									stroke="currentColor"
-									viewBox="0 0 24 24"
-									xmlns="http://www.w3.org/2000/svg"
-									aria-label="Pen icon"
-								>
-									<title>Pen icon</title>
-									<path
-										strokeLinecap="round"
-										strokeLinejoin="round"
-										strokeWidth={2}
-										d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z"
-									/>
-								</svg>
-							</div>
-							<span className="font-medium">Initials</span>
-						</div>
-					</div>
-				</div>
+				{/* Annotation Items */}
+				<FieldPalette
+					enabled={formCreatorMode}
+					draggingItem={draggingItem}
+					armedItem={armedItem}
+					onDragStart={handleDragStart}
+					onDragEnd={handleDragEnd}
+					onPointerDragStart={handlePointerDragStart}
+					onArm={handleArm}
+				/>
 
 				<div className="mt-6 text-sm text-gray-500">
 					<p>Drag and drop items onto the document to add annotations.</p>
+					<p className="mt-2">
+						Or press an item, then click a page or use the arrow keys and Enter
+						to place it.
+					</p>
 				</div>
 			</div>
 
 			{/* Viewer */}
 			<div className="flex-1">
-				<Viewer formCreatorMode={formCreatorMode} />
+				<Viewer
+					ref={viewerRef}
+					document={openDocument?.source ?? null}
+					mode={formCreatorMode ? "form-creator" : "view"}
+					activeRecipient={activeRecipient}
+					onInstanceChange={setInstance}
+					onFileDrop={openFile}
+					draggingFieldType={draggingItem}
+					snapGrid={snapGrid}
+					smartGuides={smartGuides}
+					armedFieldType={armedItem}
+					onDisarm={() => setArmedItem(null)}
+					onFieldCreated={handleFieldCreated}
+					onDiagnostic={diagnostics.report}
+				/>
+			</div>
+
+			<ToastArea diagnostics={diagnostics} />
+
+			{/* Announces arming and placement to screen readers */}
+			<div aria-live="polite" className="sr-only">
+				{announcement}
 			</div>
 		</div>
 	);
@@ -0,0 +1,333 @@
+"use client";
+
+import type { Instance } from "@nutrient-sdk/viewer";
+import { useEffect, useRef, useState } from "react";
+import { type DiagnosticInput, toError } from "@/lib/diagnostics";
+import type { Alignment, Distribution } from "@/lib/field-align";
+import {
+	alignFields,
+	distributeFields,
+	getSelectedFields,
+	selectWidgets,
+} from "@/lib/field-arrange";
+import {
+	clipboardShortcut,
+	copyFields,
+	duplicateToPages,
+	parsePageRange,
+	pasteFields,
+} from "@/lib/field-copy";
+import {
+	asDocument,
+	getPlacedFields,
+	type PlacedField,
+} from "@/lib/placed-fields";
+import type { Recipient } from "@/lib/recipients";
+import type { TemplateField } from "@/lib/templates";
+
+interface ArrangePanelProps {
+	instance: Instance | null;
+	enabled: boolean;
+	// Copies keep the recipient, and its colours, of the original
+	recipients: Recipient[];
+	onDiagnostic: (input: DiagnosticInput) => void;
+}
+
+// Selected fields of the open document, kept with the instance they belong to
+interface Selection {
+	instance: Instance;
+	fields: PlacedField[];
+}
+
+const NO_FIELDS: PlacedField[] = [];
+
+const REFRESH_EVENTS = [
+	"annotationSelection.change",
+	"annotations.change",
+] as const;
+
+const ALIGNMENTS: { alignment: Alignment; label: string }[] = [
+	{ alignment: "left", label: "Left" },
+	{ alignment: "center", label: "Center" },
+	{ alignment: "right", label: "Right" },
+	{ alignment: "top", label: "Top" },
+	{ alignment: "middle", label: "Middle" },
+	{ alignment: "bottom", label: "Bottom" },
+];
+
+const buttonClass =
+	"px-2 py-1 bg-white border border-gray-200 rounded hover:bg-gray-50 disabled:opacity-50";
+
+// Sidebar tools for the selected fields: copy and paste, duplicate to other
+// pages, and align or distribute. Shift+click widgets to select several.
+export default function ArrangePanel({
+	instance,
+	enabled,
+	recipients,
+	onDiagnostic,
+}: ArrangePanelProps) {
+	const [selection, setSelection] = useState<Selection | null>(null);
+	const [clipboard, setClipboard] = useState<TemplateField[]>([]);
+	const [pageRange, setPageRange] = useState("");
+	const [status, setStatus] = useState<string | null>(null);
+	// The key handler outlives renders, so it reads the actions available now
+	// here. A null action leaves the key to the browser and the viewer.
+	const shortcutsRef = useRef<Record<"copy" | "paste", (() => void) | null>>({
+		copy: null,
+		paste: null,
+	});
+	const onDiagnosticRef = useRef(onDiagnostic);
+
+	useEffect(() => {
+		onDiagnosticRef.current = onDiagnostic;
+	}, [onDiagnostic]);
+
+	const fields =
+		selection?.instance === instance ? selection.fields : NO_FIELDS;
+
+	useEffect(() => {
+		if (!instance) return;
+
+		const refresh = () => {
+			getSelectedFields(instance)
+				.then((selected) => setSelection({ instance, fields: selected }))
+				.catch((error) =>
+					onDiagnosticRef.current({
+						level: "error",
+						code: "fields-read-failed",
+						message: "Could not read the selected fields",
+						error: toError(error),
+					}),
+				);
+		};
+		refresh();
+
+		const handleKeyDown = (event: KeyboardEvent) => {
+			const action = clipboardShortcut(event);
+			const handler = action && shortcutsRef.current[action];
+			if (!handler) return;
+			// Keep the viewer from copying the bare widgets itself
+			event.preventDefault();
+			event.stopPropagation();
+			handler();
+		};
+
+		// Listen in the capture phase so the shortcuts reach us before the
+		// viewer. Keys pressed inside the viewer's iframe don't reach this window.
+		const root = instance.contentDocument;
+		const contentDocument = asDocument(root);
+		const frameDocument = contentDocument !== document ? contentDocument : null;
+
+		for (const event of REFRESH_EVENTS) {
+			instance.addEventListener(event, refresh);
+		}
+		window.addEventListener("keydown", handleKeyDown, true);
+		frameDocument?.addEventListener("keydown", handleKeyDown, true);
+		return () => {
+			for (const event of REFRESH_EVENTS) {
+				instance.removeEventListener(event, refresh);
+			}
+			window.removeEventListener("keydown", handleKeyDown, true);
+			frameDocument?.removeEventListener("keydown", handleKeyDown, true);
+		};
+	}, [instance]);
+
+	const run = async (action: () => Promise<string | null>) => {
+		try {
+			setStatus(await action());
+		} catch (error) {
+			onDiagnostic({
+				level: "error",
+				code: "field-update-failed",
+				message: "Could not update the fields",
+				error: toError(error),
+			});
+			setStatus("Could not update the fields");
+		}
+	};
+
+	const copy = () => {
+		if (fields.length === 0) return;
+		setClipboard(copyFields(fields));
+		setStatus(`Copied ${fields.length} field(s)`);
+	};
+
+	const paste = () =>
+		run(async () => {
+			if (!instance || clipboard.length === 0) return null;
+
+			const pageIndex = instance.viewState.currentPageIndex;
+			const pasted = await pasteFields(
+				instance,
+				clipboard,
+				pageIndex,
+				recipients,
+			);
+			setClipboard(pasted.fields);
+			selectWidgets(instance, pasted.widgets);
+			return `Pasted ${pasted.fields.length} field(s) on page ${pageIndex + 1}`;
+		});
+
+	useEffect(() => {
+		shortcutsRef.current = {
+			copy: enabled && fields.length > 0 ? copy : null,
+			paste: enabled && clipboard.length > 0 ? paste : null,
+		};
+	});
+
+	const duplicate = (pageIndexes: number[] | null) =>
+		run(async () => {
+			if (!instance || fields.length === 0) return null;
+			if (!pageIndexes) return "Enter pages like 1-3, 5";
+
+			const widgets = await duplicateToPages(
+				instance,
+				fields,
+				pageIndexes,
+				recipients,
+			);
+			return `Created ${widgets.length} widget(s) on other pages`;
+		});
+
+	const selectPage = () =>
+		run(async () => {
+			if (!instance) return null;
+
+			const pageIndex = instance.viewState.currentPageIndex;
+			const onPage = (await getPlacedFields(instance)).filter(
+				(field) => field.pageIndex === pageIndex,
+			);
+			selectWidgets(
+				instance,
+				onPage.flatMap(({ widgets }) => widgets),
+			);
+			return null;
+		});
+
+	const align = (alignment: Alignment) =>
+		run(async () => {
+			if (instance) await alignFields(instance, fields, alignment);
+			return null;
+		});
+
+	const distribute = (distribution: Distribution) =>
+		run(async () => {
+			if (instance) await distributeFields(instance, fields, distribution);
+			return null;
+		});
+
+	if (!instance) return null;
+
+	const disabled = !enabled || fields.length === 0;
+
+	return (
+		<div className="mb-4 pb-4 border-b border-gray-200 space-y-2 text-sm">
+			<h2 className="font-semibold">Arrange</h2>
+			<p className="text-gray-600">
+				{fields.length > 0
+					? `${fields.length} field(s) selected`
+					: "Shift+click fields to select several"}
+			</p>
+
+			<div className="flex flex-wrap gap-2">
+				<button
+					type="button"
+					className={buttonClass}
+					disabled={!enabled}
+					onClick={selectPage}
+				>
+					Select page
+				</button>
+				<button
+					type="button"
+					className={buttonClass}
+					disabled={disabled}
+					onClick={copy}
+					title="Copy (Ctrl/Cmd+C)"
+				>
+					Copy
+				</button>
+				<button
+					type="button"
+					className={buttonClass}
+					disabled={!enabled || clipboard.length === 0}
+					onClick={paste}
+					title="Paste on the current page (Ctrl/Cmd+V)"
+				>
+					Paste
+				</button>
+			</div>
+
+			<div className="flex flex-wrap items-center gap-2">
+				<button
+					type="button"
+					className={buttonClass}
+					disabled={disabled}
+					onClick={() =>
+						duplicate(
+							Array.from(
+								{ length: instance.totalPageCount },
+								(_, pageIndex) => pageIndex,
+							),
+						)
+					}
+				>
+					Duplicate to all pages
+				</button>
+				<input
+					type="text"
+					aria-label="Pages to duplicate to"
+					placeholder="e.g. 2-4"
+					className="w-20 px-1 border border-gray-200 rounded"
+					value={pageRange}
+					onChange={(e) => setPageRange(e.target.value)}
+				/>
+				<button
+					type="button"
+					className={buttonClass}
+					disabled={disabled || !pageRange.trim()}
+					onClick={() =>
+						duplicate(parsePageRange(pageRange, instance.totalPageCount))
+					}
+				>
+					Duplicate
+				</button>
+			</div>
+
+			<div className="flex flex-wrap gap-1">
+				{ALIGNMENTS.map(({ alignment, label }) => (
+					<button
+						key={alignment}
+						type="button"
+						className={buttonClass}
+						disabled={!enabled || fields.length < 2}
+						onClick={() => align(alignment)}
+						title={`Align ${alignment}`}
+					>
+						{label}
+					</button>
+				))}
+			</div>
+			<div className="flex gap-1">
+				<button
+					type="button"
+					className={buttonClass}
+					disabled={!enabled || fields.length < 3}
+					onClick={() => distribute("horizontal")}
+				>
+					Distribute horizontally
+				</button>
+				<button
+					type="button"
+					className={buttonClass}
+					disabled={!enabled || fields.length < 3}
+					onClick={() => distribute("vertical")}
+				>
+					Distribute vertically
+				</button>
+			</div>
+
+			{status && <p className="text-gray-600">{status}</p>}
+		</div>
+	);
+}
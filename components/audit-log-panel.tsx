@@ -0,0 +1,144 @@
+"use client";
+
+import type { Instance } from "@nutrient-sdk/viewer";
+import { useEffect, useRef, useState } from "react";
+import {
+	AUDIT_ACTION_LABELS,
+	type AuditEvent,
+	type AuditTrail,
+	auditTrailBlob,
+	createAuditTrail,
+} from "@/lib/audit-trail";
+import type { DiagnosticInput } from "@/lib/diagnostics";
+import { downloadBlob } from "@/lib/export";
+
+interface AuditLogPanelProps {
+	// A new instance means a new document, which starts a new log
+	instance: Instance | null;
+	documentName: string;
+	// Who changes made now are attributed to
+	actor: string;
+	// Current editing mode; switching it is logged
+	mode: string;
+	events: AuditEvent[];
+	onEventsChange: (events: AuditEvent[]) => void;
+	onDiagnostic: (input: DiagnosticInput) => void;
+}
+
+// Sidebar log of who placed, changed and signed each field, and when
+export default function AuditLogPanel({
+	instance,
+	documentName,
+	actor,
+	mode,
+	events,
+	onEventsChange,
+	onDiagnostic,
+}: AuditLogPanelProps) {
+	const [expanded, setExpanded] = useState(false);
+	const trailRef = useRef<AuditTrail | null>(null);
+	const actorRef = useRef(actor);
+	const onEventsChangeRef = useRef(onEventsChange);
+	const onDiagnosticRef = useRef(onDiagnostic);
+
+	useEffect(() => {
+		actorRef.current = actor;
+		onEventsChangeRef.current = onEventsChange;
+		onDiagnosticRef.current = onDiagnostic;
+	}, [actor, onEventsChange, onDiagnostic]);
+
+	useEffect(() => {
+		if (!instance) return;
+
+		const trail = createAuditTrail(
+			instance,
+			() => actorRef.current,
+			(logged) => onEventsChangeRef.current(logged),
+			(error) =>
+				onDiagnosticRef.current({
+					level: "error",
+					code: "audit-trail-failed",
+					message: "A change could not be added to the audit trail",
+					error,
+				}),
+		);
+		trailRef.current = trail;
+		return () => {
+			trail.destroy();
+			trailRef.current = null;
+			onEventsChangeRef.current([]);
+		};
+	}, [instance]);
+
+	// Log mode switches, but not the mode the document was opened in
+	const loggedModeRef = useRef(mode);
+	useEffect(() => {
+		if (loggedModeRef.current === mode) return;
+		loggedModeRef.current = mode;
+		trailRef.current?.record("mode-changed", null, `Switched to ${mode}`);
+	}, [mode]);
+
+	if (!instance) return null;
+
+	const download = () =>
+		downloadBlob(
+			auditTrailBlob(documentName, events),
+			`${documentName.replace(/\.pdf$/i, "") || "document"}-audit-trail.json`,
+		);
+
+	return (
+		<div className="mb-4 pb-4 border-b border-gray-200 space-y-2 text-sm">
+			<div className="flex items-center justify-between">
+				<h2 className="font-semibold">Audit trail ({events.length})</h2>
+				<button
+					type="button"
+					className="text-blue-600 hover:underline"
+					aria-expanded={expanded}
+					onClick={() => setExpanded(!expanded)}
+				>
+					{expanded ? "Hide" : "Show"}
+				</button>
+			</div>
+
+			{expanded && (
+				<ol className="max-h-48 overflow-y-auto space-y-1">
+					{events.length === 0 && (
+						<li className="text-gray-600">Nothing logged yet</li>
+					)}
+					{[...events].reverse().map((event, index) => (
+						<li
+							key={`${event.timestamp}-${events.length - index}`}
+							className="p-1 bg-white rounded border border-gray-200"
+						>
+							<div className="flex justify-between gap-2 text-xs text-gray-500">
+								<span>{new Date(event.timestamp).toLocaleTimeString()}</span>
+								<span className="truncate">{event.actor}</span>
+							</div>
+							<div>
+								{AUDIT_ACTION_LABELS[event.action]}
+								{event.fieldId && (
+									<span className="block text-xs text-gray-600 truncate">
+										{event.fieldId}
+									</span>
+								)}
+							</div>
+							<div className="text-xs text-gray-600">{event.detail}</div>
+						</li>
+					))}
+				</ol>
+			)}
+
+			<button
+				type="button"
+				className="w-full px-3 py-1 bg-white border border-gray-200 rounded hover:bg-gray-50 disabled:opacity-50"
+				disabled={events.length === 0}
+				onClick={download}
+			>
+				Download log (JSON)
+			</button>
+			<p className="text-xs text-gray-500">
+				The flattened PDF export ends with this log as a certificate page.
+			</p>
+		</div>
+	);
+}
@@ -0,0 +1,264 @@
+"use client";
+
+import type { Instance } from "@nutrient-sdk/viewer";
+import { useEffect, useRef, useState } from "react";
+import {
+	type AutosaveRecord,
+	documentIdFor,
+	loadAutosave,
+	restoreLayout,
+	saveAutosave,
+} from "@/lib/autosave";
+import { type DiagnosticInput, toError } from "@/lib/diagnostics";
+import type { OpenDocument } from "@/lib/document-files";
+import { getPlacedFields } from "@/lib/placed-fields";
+import type { Recipient } from "@/lib/recipients";
+import { exportTemplate } from "@/lib/templates";
+
+interface AutosaveStatusProps {
+	instance: Instance | null;
+	document: OpenDocument | null;
+	recipients: Recipient[];
+	onRecipientsChange: (recipients: Recipient[]) => void;
+	onDiagnostic: (input: DiagnosticInput) => void;
+}
+
+// Wait for changes to settle before saving
+const AUTOSAVE_DELAY_MS = 1500;
+
+const SAVE_EVENTS = ["annotations.change", "formFields.change"] as const;
+
+async function applySavedLayout(
+	instance: Instance,
+	record: AutosaveRecord,
+	recipients: Recipient[],
+	onRecipientsChange: (recipients: Recipient[]) => void,
+) {
+	const allRecipients = await restoreLayout(
+		instance,
+		record.template,
+		recipients,
+	);
+	if (allRecipients.length !== recipients.length) {
+		onRecipientsChange(allRecipients);
+	}
+}
+
+// Autosaves the field layout of the open document, restores it when the
+// document is loaded again, and asks before overwriting newer saved work
+export default function AutosaveStatus({
+	instance,
+	document,
+	recipients,
+	onRecipientsChange,
+	onDiagnostic,
+}: AutosaveStatusProps) {
+	const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+	const [savedLocally, setSavedLocally] = useState(false);
+	const [conflict, setConflict] = useState<AutosaveRecord | null>(null);
+	const documentRef = useRef(document);
+	const recipientsRef = useRef(recipients);
+	const onRecipientsChangeRef = useRef(onRecipientsChange);
+	const onDiagnosticRef = useRef(onDiagnostic);
+	// The save this session is based on; newer ones are conflicts
+	const baseSavedAtRef = useRef<string | null>(null);
+	const documentIdRef = useRef<string | null>(null);
+	const saveRef = useRef<(() => Promise<void>) | null>(null);
+
+	useEffect(() => {
+		documentRef.current = document;
+		recipientsRef.current = recipients;
+		onRecipientsChangeRef.current = onRecipientsChange;
+		onDiagnosticRef.current = onDiagnostic;
+	}, [document, recipients, onRecipientsChange, onDiagnostic]);
+
+	useEffect(() => {
+		const openDocument = documentRef.current;
+		if (!instance || !openDocument) return;
+
+		let cancelled = false;
+		let paused = true;
+		let timer: ReturnType<typeof setTimeout> | null = null;
+		// Saving in the browser is expected to go on for a while, so say so once
+		let offlineReported = false;
+		const reportOffline = (error: Error) => {
+			if (offlineReported) return;
+			offlineReported = true;
+			onDiagnosticRef.current({
+				level: "warning",
+				code: "autosave-offline",
+				message: "The autosave server can't be reached; saving in this browser",
+				error,
+			});
+		};
+
+		const save = async () => {
+			const documentId = documentIdRef.current;
+			if (cancelled || !documentId) return;
+
+			try {
+				const template = await exportTemplate(
+					instance,
+					openDocument.name,
+					recipientsRef.current,
+				);
+				const result = await saveAutosave(
+					documentId,
+					template,
+					baseSavedAtRef.current,
+					reportOffline,
+				);
+				if (cancelled) return;
+
+				if (result.status === "conflict") {
+					// Stop saving until the user picks a version
+					paused = true;
+					setConflict(result.record);
+					return;
+				}
+				baseSavedAtRef.current = result.record.savedAt;
+				setLastSavedAt(result.record.savedAt);
+				setSavedLocally(result.local);
+			} catch (error) {
+				onDiagnosticRef.current({
+					level: "error",
+					code: "autosave-failed",
+					message: "The field layout could not be autosaved",
+					error: toError(error),
+					retry: () => {
+						save();
+					},
+				});
+			}
+		};
+		saveRef.current = async () => {
+			paused = false;
+			await save();
+		};
+
+		const handleChange = () => {
+			if (paused) return;
+			if (timer) clearTimeout(timer);
+			timer = setTimeout(save, AUTOSAVE_DELAY_MS);
+		};
+
+		// Restore the saved layout once the document has loaded
+		const restore = async () => {
+			const documentId = await documentIdFor(openDocument.source);
+			const record = await loadAutosave(documentId, reportOffline);
+			if (cancelled) return;
+			documentIdRef.current = documentId;
+			baseSavedAtRef.current = null;
+
+			if (record) {
+				const placedFields = await getPlacedFields(instance);
+				if (placedFields.length > 0) {
+					// The document brought its own fields; let the user choose
+					setConflict(record);
+					return;
+				}
+				await applySavedLayout(
+					instance,
+					record,
+					recipientsRef.current,
+					onRecipientsChangeRef.current,
+				);
+				baseSavedAtRef.current = record.savedAt;
+				setLastSavedAt(record.savedAt);
+			}
+			paused = false;
+		};
+
+		restore().catch((error) => {
+			onDiagnosticRef.current({
+				level: "error",
+				code: "layout-restore-failed",
+				message: "The autosaved field layout could not be restored",
+				error: toError(error),
+			});
+			paused = false;
+		});
+		for (const event of SAVE_EVENTS) {
+			instance.addEventListener(event, handleChange);
+		}
+
+		return () => {
+			cancelled = true;
+			if (timer) clearTimeout(timer);
+			for (const event of SAVE_EVENTS) {
+				instance.removeEventListener(event, handleChange);
+			}
+			saveRef.current = null;
+			documentIdRef.current = null;
+			setLastSavedAt(null);
+			setSavedLocally(false);
+			setConflict(null);
+		};
+	}, [instance]);
+
+	const loadSaved = async () => {
+		if (!instance || !conflict) return;
+
+		const record = conflict;
+		setConflict(null);
+		try {
+			await applySavedLayout(instance, record, recipients, onRecipientsChange);
+			baseSavedAtRef.current = record.savedAt;
+			setLastSavedAt(record.savedAt);
+			await saveRef.current?.();
+		} catch (error) {
+			onDiagnostic({
+				level: "error",
+				code: "layout-restore-failed",
+				message: "The autosaved field layout could not be restored",
+				error: toError(error),
+			});
+		}
+	};
+
+	const keepMine = async () => {
+		if (!conflict) return;
+
+		// Overwrite the stored layout with what's on screen
+		baseSavedAtRef.current = conflict.savedAt;
+		setConflict(null);
+		await saveRef.current?.();
+	};
+
+	if (!instance || !document) return null;
+
+	return (
+		<div className="mb-4 pb-4 border-b border-gray-200 text-sm">
+			<p className="text-gray-600" aria-live="polite">
+				{lastSavedAt
+					? `Last saved ${new Date(lastSavedAt).toLocaleTimeString()}${savedLocally ? " (in this browser)" : ""}`
+					: "Not saved yet"}
+			</p>
+
+			{conflict && (
+				<div className="mt-2 p-2 bg-yellow-50 border border-yellow-200 rounded">
+					<p className="font-medium">
+						A layout saved {new Date(conflict.savedAt).toLocaleString()} differs
+						from the fields on screen.
+					</p>
+					<div className="flex gap-3 mt-1">
+						<button
+							type="button"
+							className="text-blue-600 hover:underline"
+							onClick={loadSaved}
+						>
+							Load saved layout
+						</button>
+						<button
+							type="button"
+							className="text-gray-600 hover:underline"
+							onClick={keepMine}
+						>
+							Keep what&apos;s on screen
+						</button>
+					</div>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import type { Instance } from "@nutrient-sdk/viewer";
+import { useEffect, useRef, useState } from "react";
+import { documentIdFor } from "@/lib/autosave";
+import {
+	COLLABORATOR_COLORS,
+	type CollaborationErrorSource,
+	type CollaborationSession,
+	type Collaborator,
+	type ConnectionStatus,
+	connectCollaboration,
+	DEFAULT_COLLABORATION_URL,
+} from "@/lib/collaboration";
+import { type DiagnosticInput, toError } from "@/lib/diagnostics";
+import type { OpenDocument } from "@/lib/document-files";
+
+interface CollaborationPanelProps {
+	instance: Instance | null;
+	document: OpenDocument | null;
+	// Form Creator mode; field changes are only shared while it is on
+	enabled: boolean;
+	onDiagnostic: (input: DiagnosticInput) => void;
+}
+
+const STATUS_LABELS: Record<ConnectionStatus, string> = {
+	connecting: "Connecting…",
+	connected: "Connected",
+	disconnected: "Not connected",
+};
+
+const ERROR_DIAGNOSTICS: Record<
+	CollaborationErrorSource,
+	Omit<DiagnosticInput, "error">
+> = {
+	change: {
+		level: "error",
+		code: "collaboration-change-failed",
+		message: "A change from another editor could not be applied",
+	},
+	send: {
+		level: "error",
+		code: "collaboration-change-failed",
+		message: "A change could not be shared with other editors",
+	},
+	presence: {
+		level: "warning",
+		code: "collaboration-presence-failed",
+		message: "Could not show what other editors have selected",
+	},
+};
+
+function colorFor(id: string): string {
+	const sum = Array.from(id).reduce(
+		(total, char) => total + char.charCodeAt(0),
+		0,
+	);
+	return COLLABORATOR_COLORS[sum % COLLABORATOR_COLORS.length];
+}
+
+// Sidebar section that joins other editors of the same document through the
+// local relay, sharing field changes and selections
+export default function CollaborationPanel({
+	instance,
+	document,
+	enabled,
+	onDiagnostic,
+}: CollaborationPanelProps) {
+	const [userId] = useState(() => crypto.randomUUID());
+	const [name, setName] = useState("Editor");
+	const [status, setStatus] = useState<ConnectionStatus>("disconnected");
+	const [peers, setPeers] = useState<Collaborator[]>([]);
+	const sessionRef = useRef<CollaborationSession | null>(null);
+	const enabledRef = useRef(enabled);
+	const onDiagnosticRef = useRef(onDiagnostic);
+
+	useEffect(() => {
+		enabledRef.current = enabled;
+		onDiagnosticRef.current = onDiagnostic;
+		sessionRef.current?.setBroadcasting(enabled);
+	}, [enabled, onDiagnostic]);
+
+	// Leave when the document changes or the panel goes away
+	useEffect(() => {
+		return () => {
+			const session = sessionRef.current;
+			sessionRef.current = null;
+			session?.destroy();
+		};
+	}, [instance, document]);
+
+	if (!instance || !document) return null;
+
+	const disconnect = () => {
+		const session = sessionRef.current;
+		sessionRef.current = null;
+		session?.destroy();
+		setPeers([]);
+	};
+
+	const connect = async () => {
+		disconnect();
+		setStatus("connecting");
+		try {
+			const session = connectCollaboration(instance, {
+				url: DEFAULT_COLLABORATION_URL,
+				room: await documentIdFor(document.source),
+				user: {
+					id: userId,
+					name: name.trim() || "Editor",
+					color: colorFor(userId),
+				},
+				onPeersChange: setPeers,
+				onStatusChange: (next) => {
+					setStatus(next);
+					if (next === "disconnected" && sessionRef.current === session) {
+						onDiagnosticRef.current({
+							level: "warning",
+							code: "collaboration-disconnected",
+							message: "Lost the connection to the collaboration server",
+							retry: connect,
+						});
+					}
+				},
+				onError: (error, source) =>
+					onDiagnosticRef.current({ ...ERROR_DIAGNOSTICS[source], error }),
+			});
+			session.setBroadcasting(enabledRef.current);
+			sessionRef.current = session;
+		} catch (error) {
+			setStatus("disconnected");
+			onDiagnosticRef.current({
+				level: "error",
+				code: "collaboration-disconnected",
+				message: "Could not connect to the collaboration server",
+				error: toError(error),
+			});
+		}
+	};
+
+	const connected = status !== "disconnected";
+
+	return (
+		<div className="mb-4 pb-4 border-b border-gray-200 space-y-2 text-sm">
+			<h2 className="font-semibold">Collaboration</h2>
+			<div className="flex items-center gap-2">
+				<label className="flex-1 min-w-0">
+					<span className="sr-only">Your name</span>
+					<input
+						type="text"
+						className="w-full px-2 py-1 bg-white border border-gray-200 rounded"
+						placeholder="Your name"
+						value={name}
+						disabled={connected}
+						onChange={(e) => setName(e.target.value)}
+					/>
+				</label>
+				<button
+					type="button"
+					className="px-3 py-1 bg-white border border-gray-200 rounded hover:bg-gray-50 disabled:opacity-50"
+					onClick={connected ? disconnect : connect}
+				>
+					{connected ? "Leave" : "Join"}
+				</button>
+			</div>
+
+			<p className="text-xs text-gray-600" aria-live="polite">
+				{STATUS_LABELS[status]}
+				{status === "connected" &&
+					!enabled &&
+					" – turn on Form Creator Mode to share your changes"}
+			</p>
+
+			{status === "connected" && (
+				<ul className="space-y-1">
+					{peers.length === 0 && (
+						<li className="text-gray-600">
+							No one else has this document open
+						</li>
+					)}
+					{peers.map((peer) => (
+						<li key={peer.id} className="flex items-center gap-2">
+							<span
+								className="inline-block w-2 h-2 rounded-full"
+								style={{ backgroundColor: peer.color }}
+							/>
+							<span className="truncate">{peer.name}</span>
+						</li>
+					))}
+				</ul>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,196 @@
+"use client";
+
+import type {
+	AnnotationsUnion,
+	Instance,
+	List,
+	WidgetAnnotation,
+} from "@nutrient-sdk/viewer";
+import { useEffect, useRef, useState } from "react";
+import {
+	DATE_SIGNED_TYPE,
+	type DateSignedFormat,
+	getLinkedSignatureId,
+	isSignatureField,
+	linkDateToSignature,
+	watchDateSignedFields,
+} from "@/lib/date-signed";
+import { type DiagnosticInput, toError } from "@/lib/diagnostics";
+import { getPlacedFields, type PlacedField } from "@/lib/placed-fields";
+import { isFieldWidget } from "@/lib/recipients";
+
+interface DateSignedPanelProps {
+	instance: Instance | null;
+	format: DateSignedFormat;
+	onFormatChange: (format: DateSignedFormat) => void;
+	onDiagnostic: (input: DiagnosticInput) => void;
+}
+
+// A selected Date Signed field and the signatures it can follow
+interface DateSelection {
+	widget: WidgetAnnotation;
+	signatures: PlacedField[];
+}
+
+const DATE_STYLES: { value: DateSignedFormat["style"]; label: string }[] = [
+	{ value: "short", label: "Short" },
+	{ value: "medium", label: "Medium" },
+	{ value: "long", label: "Long" },
+	{ value: "full", label: "Full" },
+	{ value: "iso", label: "ISO (YYYY-MM-DD)" },
+];
+
+async function loadSelection(
+	instance: Instance,
+	widget: WidgetAnnotation,
+): Promise<DateSelection> {
+	const fields = await getPlacedFields(instance);
+	return { widget, signatures: fields.filter(isSignatureField) };
+}
+
+// Sidebar section for the Date Signed format and the selected field's link
+export default function DateSignedPanel({
+	instance,
+	format,
+	onFormatChange,
+	onDiagnostic,
+}: DateSignedPanelProps) {
+	const [selection, setSelection] = useState<DateSelection | null>(null);
+	const formatRef = useRef(format);
+	const onDiagnosticRef = useRef(onDiagnostic);
+
+	useEffect(() => {
+		formatRef.current = format;
+		onDiagnosticRef.current = onDiagnostic;
+	}, [format, onDiagnostic]);
+
+	// Stamp and reset date fields as signatures come and go
+	useEffect(() => {
+		if (!instance) return;
+		return watchDateSignedFields(
+			instance,
+			() => formatRef.current,
+			(error) =>
+				onDiagnosticRef.current({
+					level: "error",
+					code: "date-signed-failed",
+					message: "Date Signed fields could not be updated",
+					error,
+				}),
+		);
+	}, [instance]);
+
+	// Follow the selected Date Signed field
+	useEffect(() => {
+		if (!instance) return;
+
+		const handleSelectionChange = (annotations: List<AnnotationsUnion>) => {
+			const selected = annotations?.size === 1 ? annotations.first() : null;
+			if (
+				!selected ||
+				!isFieldWidget(selected) ||
+				selected.customData?.fieldType !== DATE_SIGNED_TYPE
+			) {
+				setSelection(null);
+				return;
+			}
+			loadSelection(instance, selected)
+				.then(setSelection)
+				.catch((error) =>
+					onDiagnosticRef.current({
+						level: "error",
+						code: "fields-read-failed",
+						message: "Could not list the signatures to link to",
+						error: toError(error),
+					}),
+				);
+		};
+
+		instance.addEventListener(
+			"annotationSelection.change",
+			handleSelectionChange,
+		);
+		return () => {
+			instance.removeEventListener(
+				"annotationSelection.change",
+				handleSelectionChange,
+			);
+			setSelection(null);
+		};
+	}, [instance]);
+
+	const linkSelected = async (signatureWidgetId: string) => {
+		if (!instance || !selection) return;
+
+		try {
+			await linkDateToSignature(
+				instance,
+				selection.widget,
+				signatureWidgetId || null,
+			);
+			setSelection(null);
+		} catch (error) {
+			onDiagnostic({
+				level: "error",
+				code: "field-update-failed",
+				message: "Could not link the Date Signed field",
+				error: toError(error),
+			});
+		}
+	};
+
+	return (
+		<div className="mb-4 pb-4 border-b border-gray-200 space-y-2 text-sm">
+			<h2 className="font-semibold">Date Signed</h2>
+			<div className="flex gap-2">
+				<select
+					aria-label="Date format"
+					className="min-w-0 flex-1 px-1 py-1 bg-white border border-gray-200 rounded"
+					value={format.style}
+					onChange={(e) =>
+						onFormatChange({
+							...format,
+							style: e.target.value as DateSignedFormat["style"],
+						})
+					}
+				>
+					{DATE_STYLES.map(({ value, label }) => (
+						<option key={value} value={value}>
+							{label}
+						</option>
+					))}
+				</select>
+				<input
+					type="text"
+					aria-label="Date locale"
+					className="w-20 px-1 bg-white border border-gray-200 rounded"
+					value={format.locale}
+					disabled={format.style === "iso"}
+					onChange={(e) =>
+						onFormatChange({ ...format, locale: e.target.value })
+					}
+				/>
+			</div>
+
+			{selection && (
+				<label className="block">
+					<span className="block mb-1 text-gray-600">
+						Selected date follows
+					</span>
+					<select
+						className="w-full px-1 py-1 bg-white border border-gray-200 rounded"
+						value={getLinkedSignatureId(selection.widget) ?? ""}
+						onChange={(e) => linkSelected(e.target.value)}
+					>
+						<option value="">Nearest signature on the page</option>
+						{selection.signatures.map(({ formField, pageIndex, widgets }) => (
+							<option key={widgets[0].id} value={widgets[0].id}>
+								{formField.name} (page {pageIndex + 1})
+							</option>
+						))}
+					</select>
+				</label>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Diagnostic, DiagnosticChannel } from "@/lib/diagnostics";
+
+interface DebugPanelProps {
+	diagnostics: DiagnosticChannel;
+}
+
+const LEVEL_STYLES = {
+	info: "text-gray-500",
+	warning: "text-yellow-700",
+	error: "text-red-700",
+};
+
+function rawDetail({ data, error }: Diagnostic): string | null {
+	if (!data && !error) return null;
+	return JSON.stringify(
+		{ ...data, ...(error && { error: error.stack ?? error.message }) },
+		null,
+		2,
+	);
+}
+
+// Sidebar section listing the raw diagnostic stream, newest first
+export default function DebugPanel({ diagnostics }: DebugPanelProps) {
+	const [expanded, setExpanded] = useState(false);
+	const [events, setEvents] = useState<Diagnostic[]>(() =>
+		diagnostics.history(),
+	);
+
+	useEffect(
+		() =>
+			diagnostics.subscribe(() => {
+				setEvents(diagnostics.history());
+			}),
+		[diagnostics],
+	);
+
+	return (
+		<div className="mb-4 pb-4 border-b border-gray-200 space-y-2 text-sm">
+			<div className="flex items-center justify-between">
+				<h2 className="font-semibold">Debug events ({events.length})</h2>
+				<button
+					type="button"
+					className="text-blue-600 hover:underline"
+					aria-expanded={expanded}
+					onClick={() => setExpanded(!expanded)}
+				>
+					{expanded ? "Hide" : "Show"}
+				</button>
+			</div>
+
+			{expanded && (
+				<ol className="max-h-64 overflow-y-auto space-y-1 font-mono text-xs">
+					{events.length === 0 && (
+						<li className="text-gray-600">Nothing reported yet</li>
+					)}
+					{[...events].reverse().map((event) => {
+						const detail = rawDetail(event);
+						return (
+							<li
+								key={event.id}
+								className="p-1 bg-white rounded border border-gray-200"
+							>
+								<div className="flex justify-between gap-2">
+									<span className={LEVEL_STYLES[event.level]}>
+										{event.level} {event.code}
+									</span>
+									<span className="text-gray-500">
+										{new Date(event.timestamp).toLocaleTimeString()}
+									</span>
+								</div>
+								<div>{event.message}</div>
+								{detail && (
+									<pre className="mt-1 whitespace-pre-wrap break-all text-gray-600">
+										{detail}
+									</pre>
+								)}
+							</li>
+						);
+					})}
+				</ol>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import type { Instance } from "@nutrient-sdk/viewer";
+import { useState } from "react";
+import type { AuditEvent } from "@/lib/audit-trail";
+import { type DiagnosticInput, toError } from "@/lib/diagnostics";
+import {
+	downloadBlob,
+	EXPORT_OPTIONS,
+	type ExportFormat,
+	exportDocument,
+	exportFileName,
+} from "@/lib/export";
+import type { Recipient } from "@/lib/recipients";
+import { countErrors, validateDocument } from "@/lib/validation";
+
+interface ExportMenuProps {
+	instance: Instance | null;
+	// Source document name, used for the downloaded file names
+	documentName: string;
+	// Appended as a certificate page to the flattened PDF
+	auditEvents: AuditEvent[];
+	// Validated before exporting a PDF; validation errors block the export
+	recipients: Recipient[];
+	onDiagnostic: (input: DiagnosticInput) => void;
+}
+
+// The PDFs are what gets sent out, so they must pass validation. Field data
+// exports are never blocked.
+const VALIDATED_FORMATS: ExportFormat[] = ["pdf", "flattened-pdf"];
+
+// Sidebar section to download the document or its field data
+export default function ExportMenu({
+	instance,
+	documentName,
+	auditEvents,
+	recipients,
+	onDiagnostic,
+}: ExportMenuProps) {
+	const [exporting, setExporting] = useState<ExportFormat | null>(null);
+	const [status, setStatus] = useState<string | null>(null);
+
+	const runExport = async (format: ExportFormat) => {
+		if (!instance) return;
+
+		setExporting(format);
+		setStatus(null);
+		try {
+			if (VALIDATED_FORMATS.includes(format)) {
+				const errors = countErrors(
+					await validateDocument(instance, recipients),
+				);
+				if (errors > 0) {
+					setStatus(`Fix ${errors} validation error(s) before exporting`);
+					return;
+				}
+			}
+
+			const fileName = exportFileName(documentName, format);
+			const blob = await exportDocument(instance, format, {
+				documentName,
+				events: auditEvents,
+			});
+			downloadBlob(blob, fileName);
+			setStatus(`Downloaded ${fileName}`);
+		} catch (error) {
+			onDiagnostic({
+				level: "error",
+				code: "export-failed",
+				message: "Could not export the document",
+				error: toError(error),
+				retry: () => runExport(format),
+			});
+			setStatus(
+				`Export failed: ${error instanceof Error ? error.message : "unknown error"}`,
+			);
+		} finally {
+			setExporting(null);
+		}
+	};
+
+	return (
+		<div className="mb-4 pb-4 border-b border-gray-200 space-y-2 text-sm">
+			<h2 className="font-semibold">Export</h2>
+			<div className="grid grid-cols-2 gap-2">
+				{EXPORT_OPTIONS.map(({ format, label }) => (
+					<button
+						key={format}
+						type="button"
+						className="px-2 py-1 bg-white border border-gray-200 rounded hover:bg-gray-50 disabled:opacity-50"
+						disabled={!instance || exporting !== null}
+						onClick={() => runExport(format)}
+					>
+						{exporting === format ? "Exporting…" : label}
+					</button>
+				))}
+			</div>
+			{status && <p className="text-gray-600">{status}</p>}
+		</div>
+	);
+}
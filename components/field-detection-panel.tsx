@@ -0,0 +1,295 @@
+"use client";
+
+import type { Instance } from "@nutrient-sdk/viewer";
+import { useEffect, useState } from "react";
+import { type DiagnosticInput, toError } from "@/lib/diagnostics";
+import type { Box } from "@/lib/drop-placement";
+import {
+	DEFAULT_FIELD_ANCHORS,
+	detectFields,
+	type FieldAnchor,
+	type FieldSuggestion,
+	hideSuggestions,
+	showSuggestions,
+} from "@/lib/field-anchors";
+import { getFieldType, getFieldTypes } from "@/lib/field-types";
+
+interface FieldDetectionPanelProps {
+	instance: Instance | null;
+	enabled: boolean;
+	// Creates a field through the same path as a drop
+	onPlaceField: (
+		fieldType: string,
+		pageIndex: number,
+		boundingBox: Box,
+	) => Promise<boolean>;
+	onDiagnostic: (input: DiagnosticInput) => void;
+}
+
+// Suggestions only apply to the document they were detected in
+interface Detection {
+	instance: Instance;
+	suggestions: FieldSuggestion[];
+}
+
+const NO_SUGGESTIONS: FieldSuggestion[] = [];
+
+// Sidebar section that proposes fields next to text like "Signature:"
+export default function FieldDetectionPanel({
+	instance,
+	enabled,
+	onPlaceField,
+	onDiagnostic,
+}: FieldDetectionPanelProps) {
+	const [anchors, setAnchors] = useState<FieldAnchor[]>(DEFAULT_FIELD_ANCHORS);
+	const [showAnchors, setShowAnchors] = useState(false);
+	const [detection, setDetection] = useState<Detection | null>(null);
+	const [detecting, setDetecting] = useState(false);
+	const [status, setStatus] = useState<string | null>(null);
+
+	const suggestions =
+		detection && detection.instance === instance
+			? detection.suggestions
+			: NO_SUGGESTIONS;
+
+	// Keep the pending suggestions drawn on the pages
+	useEffect(() => {
+		if (!instance || suggestions.length === 0) return;
+		showSuggestions(instance, suggestions);
+		return () => hideSuggestions(instance, suggestions);
+	}, [instance, suggestions]);
+
+	const detect = async () => {
+		if (!instance) return;
+
+		setDetecting(true);
+		try {
+			const found = await detectFields(instance, anchors);
+			setDetection({ instance, suggestions: found });
+			setStatus(
+				found.length > 0
+					? `Found ${found.length} possible field(s)`
+					: "No anchors found in the document",
+			);
+		} catch (error) {
+			// Usually a bad pattern, which the status already points at
+			onDiagnostic({
+				level: "warning",
+				code: "field-detection-failed",
+				message: "Could not search the document for fields",
+				error: toError(error),
+			});
+			setStatus("Could not search the document, check the patterns");
+		} finally {
+			setDetecting(false);
+		}
+	};
+
+	const dismiss = (done: FieldSuggestion[]) =>
+		setDetection(
+			(current) =>
+				current && {
+					...current,
+					suggestions: current.suggestions.filter((s) => !done.includes(s)),
+				},
+		);
+
+	const accept = async (accepted: FieldSuggestion[]) => {
+		const placed: FieldSuggestion[] = [];
+		for (const suggestion of accepted) {
+			const { fieldType, pageIndex, boundingBox } = suggestion;
+			if (await onPlaceField(fieldType, pageIndex, boundingBox)) {
+				placed.push(suggestion);
+			}
+		}
+		dismiss(placed);
+		if (placed.length < accepted.length) {
+			setStatus(`Could not place ${accepted.length - placed.length} field(s)`);
+		}
+	};
+
+	const updateAnchor = (id: string, changes: Partial<FieldAnchor>) =>
+		setAnchors(
+			anchors.map((anchor) =>
+				anchor.id === id ? { ...anchor, ...changes } : anchor,
+			),
+		);
+
+	return (
+		<div className="mb-4 pb-4 border-b border-gray-200 space-y-2 text-sm">
+			<h2 className="font-semibold">Auto-detect fields</h2>
+			<div className="flex gap-2">
+				<button
+					type="button"
+					className="flex-1 px-3 py-1 bg-white border border-gray-200 rounded hover:bg-gray-50 disabled:opacity-50"
+					disabled={!instance || !enabled || detecting}
+					onClick={detect}
+				>
+					{detecting ? "Searching…" : "Auto-detect fields"}
+				</button>
+				<button
+					type="button"
+					className="text-blue-600 hover:underline"
+					aria-expanded={showAnchors}
+					onClick={() => setShowAnchors(!showAnchors)}
+				>
+					Anchors
+				</button>
+			</div>
+
+			{showAnchors && (
+				<ul className="space-y-2">
+					{anchors.map((anchor) => (
+						<li key={anchor.id} className="p-2 bg-white rounded border">
+							<div className="flex gap-2">
+								<input
+									type="text"
+									aria-label="Anchor text or pattern"
+									className="min-w-0 flex-1 px-1 border border-gray-200 rounded"
+									value={anchor.pattern}
+									onChange={(e) =>
+										updateAnchor(anchor.id, { pattern: e.target.value })
+									}
+								/>
+								<button
+									type="button"
+									className="text-xs text-gray-500 hover:text-red-600"
+									aria-label={`Remove anchor ${anchor.pattern}`}
+									onClick={() =>
+										setAnchors(anchors.filter(({ id }) => id !== anchor.id))
+									}
+								>
+									✕
+								</button>
+							</div>
+							<div className="flex items-center gap-2 mt-1">
+								<label className="flex items-center gap-1">
+									<input
+										type="checkbox"
+										checked={anchor.isRegex}
+										onChange={(e) =>
+											updateAnchor(anchor.id, { isRegex: e.target.checked })
+										}
+									/>
+									<span>Regex</span>
+								</label>
+								<select
+									aria-label="Field type"
+									className="min-w-0 flex-1 px-1 border border-gray-200 rounded"
+									value={anchor.fieldType}
+									onChange={(e) =>
+										updateAnchor(anchor.id, { fieldType: e.target.value })
+									}
+								>
+									{getFieldTypes().map(({ type, label }) => (
+										<option key={type} value={type}>
+											{label}
+										</option>
+									))}
+								</select>
+							</div>
+							<div className="flex items-center gap-2 mt-1 text-gray-600">
+								<span>Offset</span>
+								<input
+									type="number"
+									aria-label="Horizontal offset in points"
+									className="w-14 px-1 border border-gray-200 rounded"
+									value={anchor.offset.x}
+									onChange={(e) =>
+										updateAnchor(anchor.id, {
+											offset: { ...anchor.offset, x: Number(e.target.value) },
+										})
+									}
+								/>
+								<input
+									type="number"
+									aria-label="Vertical offset in points"
+									className="w-14 px-1 border border-gray-200 rounded"
+									value={anchor.offset.y}
+									onChange={(e) =>
+										updateAnchor(anchor.id, {
+											offset: { ...anchor.offset, y: Number(e.target.value) },
+										})
+									}
+								/>
+							</div>
+						</li>
+					))}
+					<li>
+						<button
+							type="button"
+							className="text-blue-600 hover:underline"
+							onClick={() =>
+								setAnchors([
+									...anchors,
+									{
+										id: crypto.randomUUID(),
+										pattern: "",
+										isRegex: false,
+										fieldType: getFieldTypes()[0]?.type ?? "",
+										offset: { x: 6, y: 0 },
+									},
+								])
+							}
+						>
+							+ Add anchor
+						</button>
+					</li>
+				</ul>
+			)}
+
+			{suggestions.length > 0 && (
+				<>
+					<div className="flex gap-3">
+						<button
+							type="button"
+							className="text-blue-600 hover:underline"
+							onClick={() => accept(suggestions)}
+						>
+							Accept all
+						</button>
+						<button
+							type="button"
+							className="text-gray-600 hover:underline"
+							onClick={() => dismiss(suggestions)}
+						>
+							Reject all
+						</button>
+					</div>
+					<ul className="space-y-1">
+						{suggestions.map((suggestion) => (
+							<li key={suggestion.id} className="flex items-center gap-2">
+								<span
+									className="flex-1 truncate"
+									title={`Next to "${suggestion.anchorText}"`}
+								>
+									{getFieldType(suggestion.fieldType)?.label ??
+										suggestion.fieldType}{" "}
+									<span className="text-gray-500">
+										p. {suggestion.pageIndex + 1}
+									</span>
+								</span>
+								<button
+									type="button"
+									className="text-blue-600 hover:underline"
+									onClick={() => accept([suggestion])}
+								>
+									Accept
+								</button>
+								<button
+									type="button"
+									className="text-gray-600 hover:underline"
+									onClick={() => dismiss([suggestion])}
+								>
+									Reject
+								</button>
+							</li>
+						))}
+					</ul>
+				</>
+			)}
+
+			{status && <p className="text-gray-600">{status}</p>}
+		</div>
+	);
+}
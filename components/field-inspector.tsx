@@ -0,0 +1,309 @@
+"use client";
+
+import type {
+	AnnotationsUnion,
+	FormField,
+	Instance,
+	List,
+	WidgetAnnotation,
+} from "@nutrient-sdk/viewer";
+import { useEffect, useRef, useState } from "react";
+import { type DiagnosticInput, toError } from "@/lib/diagnostics";
+import type { Box } from "@/lib/drop-placement";
+import {
+	applyFieldProperties,
+	type FieldProperties,
+	type FieldPropertyErrors,
+	readFieldProperties,
+	validateFieldProperties,
+} from "@/lib/field-properties";
+import { isFieldWidget } from "@/lib/recipients";
+
+interface FieldInspectorProps {
+	instance: Instance | null;
+	onDiagnostic: (input: DiagnosticInput) => void;
+}
+
+interface InspectedField {
+	widget: WidgetAnnotation;
+	formField: FormField;
+}
+
+async function loadInspectedField(
+	instance: Instance,
+	widget: WidgetAnnotation,
+): Promise<InspectedField | null> {
+	const formFields = await instance.getFormFields();
+	const formField = formFields.find(
+		(field) => field.name === widget.formFieldName,
+	);
+	return formField ? { widget, formField } : null;
+}
+
+// Sidebar section to edit the properties of the selected field
+export default function FieldInspector({
+	instance,
+	onDiagnostic,
+}: FieldInspectorProps) {
+	const [inspected, setInspected] = useState<InspectedField | null>(null);
+	const onDiagnosticRef = useRef(onDiagnostic);
+
+	useEffect(() => {
+		onDiagnosticRef.current = onDiagnostic;
+	}, [onDiagnostic]);
+
+	// Follow the selected widget, and pick up moves and resizes made on the page
+	useEffect(() => {
+		if (!instance) return;
+
+		let selectedId: string | null = null;
+		const inspect = (widget: WidgetAnnotation | null) => {
+			selectedId = widget?.id ?? null;
+			if (!widget) {
+				setInspected(null);
+				return;
+			}
+			loadInspectedField(instance, widget)
+				.then((field) => {
+					// Ignore results for a selection that has changed meanwhile
+					if (selectedId === widget.id) setInspected(field);
+				})
+				.catch((error) =>
+					onDiagnosticRef.current({
+						level: "error",
+						code: "fields-read-failed",
+						message: "Could not load the selected field",
+						error: toError(error),
+					}),
+				);
+		};
+
+		const handleSelectionChange = (annotations: List<AnnotationsUnion>) => {
+			const selected = annotations?.size === 1 ? annotations.first() : null;
+			inspect(selected && isFieldWidget(selected) ? selected : null);
+		};
+
+		const handleAnnotationsUpdate = (annotations: List<AnnotationsUnion>) => {
+			const updated = annotations.find(
+				(annotation) => annotation.id === selectedId,
+			);
+			if (updated && isFieldWidget(updated)) inspect(updated);
+		};
+
+		instance.addEventListener(
+			"annotationSelection.change",
+			handleSelectionChange,
+		);
+		instance.addEventListener("annotations.update", handleAnnotationsUpdate);
+		return () => {
+			instance.removeEventListener(
+				"annotationSelection.change",
+				handleSelectionChange,
+			);
+			instance.removeEventListener(
+				"annotations.update",
+				handleAnnotationsUpdate,
+			);
+			selectedId = null;
+			setInspected(null);
+		};
+	}, [instance]);
+
+	if (!instance || !inspected) return null;
+
+	const { widget, formField } = inspected;
+	const { left, top, width, height } = widget.boundingBox;
+	return (
+		<FieldPropertiesForm
+			// Start a fresh draft whenever the field changes underneath the form
+			key={`${widget.id}:${formField.name}:${left},${top},${width},${height}`}
+			instance={instance}
+			widget={widget}
+			formField={formField}
+			onDiagnostic={onDiagnostic}
+		/>
+	);
+}
+
+interface FieldPropertiesFormProps {
+	instance: Instance;
+	widget: WidgetAnnotation;
+	formField: FormField;
+	onDiagnostic: (input: DiagnosticInput) => void;
+}
+
+const BOX_INPUTS: { key: keyof Box; label: string }[] = [
+	{ key: "left", label: "X" },
+	{ key: "top", label: "Y" },
+	{ key: "width", label: "Width" },
+	{ key: "height", label: "Height" },
+];
+
+function FieldPropertiesForm({
+	instance,
+	widget,
+	formField,
+	onDiagnostic,
+}: FieldPropertiesFormProps) {
+	const [draft, setDraft] = useState<FieldProperties>(() => {
+		const properties = readFieldProperties(widget, formField);
+		// Geometry can carry long fractions after a drag; two decimals is plenty
+		const { left, top, width, height } = properties.boundingBox;
+		const round = (value: number) => Math.round(value * 100) / 100;
+		return {
+			...properties,
+			boundingBox: {
+				left: round(left),
+				top: round(top),
+				width: round(width),
+				height: round(height),
+			},
+		};
+	});
+	const [errors, setErrors] = useState<FieldPropertyErrors>({});
+	const [status, setStatus] = useState<string | null>(null);
+
+	const change = (properties: Partial<FieldProperties>) =>
+		setDraft((current) => ({ ...current, ...properties }));
+
+	const changeBox = (key: keyof Box, value: string) =>
+		setDraft((current) => ({
+			...current,
+			boundingBox: { ...current.boundingBox, [key]: Number(value) },
+		}));
+
+	const apply = async () => {
+		try {
+			const formFields = await instance.getFormFields();
+			const pageInfo = instance.pageInfoForIndex(widget.pageIndex);
+			const validationErrors = validateFieldProperties(draft, {
+				currentName: formField.name,
+				existingNames: new Set(formFields.map((field) => field.name)),
+				pageSize: pageInfo
+					? { width: pageInfo.width, height: pageInfo.height }
+					: null,
+			});
+			setErrors(validationErrors);
+			if (Object.keys(validationErrors).length > 0) return;
+
+			await applyFieldProperties(instance, widget, formField, draft);
+			setStatus("Saved");
+		} catch (error) {
+			onDiagnostic({
+				level: "error",
+				code: "field-update-failed",
+				message: "Could not update the field",
+				error: toError(error),
+			});
+			setStatus("Could not update the field");
+		}
+	};
+
+	return (
+		<form
+			className="mb-4 pb-4 border-b border-gray-200 space-y-2 text-sm"
+			onSubmit={(e) => {
+				e.preventDefault();
+				apply();
+			}}
+		>
+			<h2 className="font-semibold">Field properties</h2>
+
+			<label className="block">
+				<span className="block mb-1 text-gray-600">Name</span>
+				<input
+					type="text"
+					className="w-full px-1 bg-white border border-gray-200 rounded"
+					value={draft.name}
+					onChange={(e) => change({ name: e.target.value })}
+				/>
+			</label>
+			{errors.name && <p className="text-red-600">{errors.name}</p>}
+
+			<label className="block">
+				<span className="block mb-1 text-gray-600">Tooltip</span>
+				<input
+					type="text"
+					className="w-full px-1 bg-white border border-gray-200 rounded"
+					value={draft.tooltip}
+					onChange={(e) => change({ tooltip: e.target.value })}
+				/>
+			</label>
+
+			{draft.defaultValue !== null && (
+				<label className="block">
+					<span className="block mb-1 text-gray-600">Default value</span>
+					<input
+						type="text"
+						className="w-full px-1 bg-white border border-gray-200 rounded"
+						value={draft.defaultValue}
+						onChange={(e) => change({ defaultValue: e.target.value })}
+					/>
+				</label>
+			)}
+
+			<div className="flex gap-4">
+				<label className="flex items-center gap-2">
+					<input
+						type="checkbox"
+						checked={draft.required}
+						onChange={(e) => change({ required: e.target.checked })}
+					/>
+					<span>Required</span>
+				</label>
+				<label className="flex items-center gap-2">
+					<input
+						type="checkbox"
+						checked={draft.readOnly}
+						onChange={(e) => change({ readOnly: e.target.checked })}
+					/>
+					<span>Read-only</span>
+				</label>
+			</div>
+
+			<label className="flex items-center gap-2">
+				<span className="text-gray-600">Font size</span>
+				<input
+					type="number"
+					min={1}
+					max={144}
+					placeholder="Auto"
+					className="w-16 px-1 bg-white border border-gray-200 rounded"
+					value={draft.fontSize ?? ""}
+					onChange={(e) =>
+						change({
+							fontSize: e.target.value === "" ? null : Number(e.target.value),
+						})
+					}
+				/>
+			</label>
+			{errors.fontSize && <p className="text-red-600">{errors.fontSize}</p>}
+
+			<div className="grid grid-cols-2 gap-2">
+				{BOX_INPUTS.map(({ key, label }) => (
+					<label key={key} className="flex items-center gap-2">
+						<span className="w-12 text-gray-600">{label}</span>
+						<input
+							type="number"
+							step="any"
+							className="min-w-0 flex-1 px-1 bg-white border border-gray-200 rounded"
+							value={draft.boundingBox[key]}
+							onChange={(e) => changeBox(key, e.target.value)}
+						/>
+					</label>
+				))}
+			</div>
+			{errors.boundingBox && (
+				<p className="text-red-600">{errors.boundingBox}</p>
+			)}
+
+			<button
+				type="submit"
+				className="px-3 py-1 rounded bg-blue-600 text-white hover:bg-blue-700"
+			>
+				Apply
+			</button>
+			{status && <p className="text-gray-600">{status}</p>}
+		</form>
+	);
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import type { Instance } from "@nutrient-sdk/viewer";
+import { useEffect, useRef, useState } from "react";
+import { type DiagnosticInput, toError } from "@/lib/diagnostics";
+import { getFieldType } from "@/lib/field-types";
+import { getPlacedFields, type PlacedField } from "@/lib/placed-fields";
+import type { Recipient } from "@/lib/recipients";
+import { compareTabOrder, saveTabOrder } from "@/lib/tab-order";
+
+interface FieldOutlineProps {
+	instance: Instance | null;
+	recipients: Recipient[];
+	onDiagnostic: (input: DiagnosticInput) => void;
+}
+
+// Fields of the open document, kept with the instance they were read from
+interface Outline {
+	instance: Instance;
+	fields: PlacedField[];
+}
+
+const REFRESH_EVENTS = ["annotations.change", "formFields.change"] as const;
+
+async function loadFields(instance: Instance): Promise<PlacedField[]> {
+	return (await getPlacedFields(instance)).sort(compareTabOrder);
+}
+
+function groupByPage(fields: PlacedField[]): [number, PlacedField[]][] {
+	const pages = new Map<number, PlacedField[]>();
+	for (const field of fields) {
+		pages.set(field.pageIndex, [...(pages.get(field.pageIndex) ?? []), field]);
+	}
+	return Array.from(pages);
+}
+
+// Sidebar list of every placed field, grouped by page in tab order. Rows can
+// be dragged (or moved with Alt+Arrow keys) within a page to change the order.
+export default function FieldOutline({
+	instance,
+	recipients,
+	onDiagnostic,
+}: FieldOutlineProps) {
+	const [outline, setOutline] = useState<Outline | null>(null);
+	const [draggedId, setDraggedId] = useState<string | null>(null);
+	const onDiagnosticRef = useRef(onDiagnostic);
+
+	useEffect(() => {
+		onDiagnosticRef.current = onDiagnostic;
+	}, [onDiagnostic]);
+
+	const fields = outline?.instance === instance ? outline.fields : [];
+
+	useEffect(() => {
+		if (!instance) return;
+
+		const refresh = () => {
+			loadFields(instance)
+				.then((loaded) => setOutline({ instance, fields: loaded }))
+				.catch((error) =>
+					onDiagnosticRef.current({
+						level: "error",
+						code: "fields-read-failed",
+						message: "Could not list the placed fields",
+						error: toError(error),
+					}),
+				);
+		};
+		refresh();
+
+		for (const event of REFRESH_EVENTS) {
+			instance.addEventListener(event, refresh);
+		}
+		return () => {
+			for (const event of REFRESH_EVENTS) {
+				instance.removeEventListener(event, refresh);
+			}
+		};
+	}, [instance]);
+
+	const select = (field: PlacedField) => {
+		const { NutrientViewer } = window;
+		if (!instance || !NutrientViewer) return;
+
+		const [widget] = field.widgets;
+		instance.jumpToRect(field.pageIndex, widget.boundingBox);
+		instance.setSelectedAnnotations(NutrientViewer.Immutable.List([widget.id]));
+	};
+
+	const remove = async (field: PlacedField) => {
+		if (!instance) return;
+		try {
+			await instance.delete([...field.widgets, field.formField]);
+		} catch (error) {
+			onDiagnostic({
+				level: "error",
+				code: "field-remove-failed",
+				message: "Could not remove the field",
+				error: toError(error),
+			});
+		}
+	};
+
+	// Move a field to the position of another one on the same page
+	const move = async (field: PlacedField, target: PlacedField) => {
+		if (!instance || field === target || field.pageIndex !== target.pageIndex) {
+			return;
+		}
+
+		const reordered = fields.filter((f) => f !== field);
+		const targetIndex = reordered.indexOf(target);
+		const insertAt =
+			fields.indexOf(field) < fields.indexOf(target)
+				? targetIndex + 1
+				: targetIndex;
+		reordered.splice(insertAt, 0, field);
+
+		setOutline({ instance, fields: reordered });
+		try {
+			await saveTabOrder(instance, reordered);
+		} catch (error) {
+			onDiagnostic({
+				level: "error",
+				code: "field-update-failed",
+				message: "Could not save the tab order",
+				error: toError(error),
+			});
+		}
+	};
+
+	if (!instance) return null;
+
+	return (
+		<div className="mb-4 pb-4 border-b border-gray-200 text-sm">
+			<h2 className="font-semibold mb-2">Fields ({fields.length})</h2>
+			{fields.length === 0 && (
+				<p className="text-gray-600">No fields placed yet</p>
+			)}
+			{groupByPage(fields).map(([pageIndex, pageFields]) => (
+				<div key={pageIndex} className="mb-2">
+					<h3 className="text-xs font-medium text-gray-500 uppercase">
+						Page {pageIndex + 1}
+					</h3>
+					<ol className="space-y-1">
+						{pageFields.map((field, index) => {
+							const definition = getFieldType(field.fieldType);
+							const recipient = recipients.find(
+								({ id }) => id === field.recipientId,
+							);
+							const fieldId = field.formField.id;
+							return (
+								<li
+									key={fieldId}
+									draggable
+									onDragStart={(e) => {
+										// A private type, so the viewer doesn't take it for a palette drag
+										e.dataTransfer.setData("application/x-field-id", fieldId);
+										e.dataTransfer.effectAllowed = "move";
+										setDraggedId(fieldId);
+									}}
+									onDragEnd={() => setDraggedId(null)}
+									onDragOver={(e) => {
+										const dragged = fields.find(
+											(f) => f.formField.id === draggedId,
+										);
+										if (dragged?.pageIndex === pageIndex) e.preventDefault();
+									}}
+									onDrop={(e) => {
+										e.preventDefault();
+										const dragged = fields.find(
+											(f) => f.formField.id === draggedId,
+										);
+										if (dragged) move(dragged, field);
+									}}
+									className={`flex items-center gap-2 p-1 bg-white rounded border border-gray-200 cursor-grab ${draggedId === fieldId ? "opacity-50" : ""}`}
+								>
+									<span className="w-5 h-5 shrink-0 flex items-center justify-center">
+										{definition?.icon}
+									</span>
+									<button
+										type="button"
+										className="min-w-0 flex-1 text-left truncate hover:underline"
+										title={`${field.formField.name}. Alt+Arrow keys change the order.`}
+										onClick={() => select(field)}
+										onKeyDown={(e) => {
+											if (!e.altKey) return;
+											const target =
+												e.key === "ArrowUp"
+													? pageFields[index - 1]
+													: e.key === "ArrowDown"
+														? pageFields[index + 1]
+														: null;
+											if (!target) return;
+											e.preventDefault();
+											move(field, target);
+										}}
+									>
+										{field.formField.name}
+									</button>
+									{recipient && (
+										<span className="flex items-center gap-1 max-w-20 text-xs text-gray-500">
+											<span
+												className="w-2 h-2 rounded-full shrink-0"
+												style={{ backgroundColor: recipient.color }}
+											/>
+											<span className="truncate">{recipient.name}</span>
+										</span>
+									)}
+									<button
+										type="button"
+										className="text-xs text-gray-500 hover:text-red-600"
+										aria-label={`Delete ${field.formField.name}`}
+										onClick={() => remove(field)}
+									>
+										✕
+									</button>
+								</li>
+							);
+						})}
+					</ol>
+				</div>
+			))}
+		</div>
+	);
+}
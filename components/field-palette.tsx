@@ -0,0 +1,65 @@
+"use client";
+
+import { getFieldTypes } from "@/lib/field-types";
+import { isPointerDragInput } from "@/lib/pointer-drag";
+
+interface FieldPaletteProps {
+	enabled: boolean;
+	draggingItem: string | null;
+	// Field type armed for click or keyboard placement
+	armedItem: string | null;
+	onDragStart: (
+		event: React.DragEvent<HTMLButtonElement>,
+		fieldType: string,
+	) => void;
+	onDragEnd: () => void;
+	// Touch and pen drags, which don't fire HTML5 drag events
+	onPointerDragStart: (
+		event: React.PointerEvent<HTMLButtonElement>,
+		fieldType: string,
+	) => void;
+	// Toggle click or keyboard placement for a field type
+	onArm: (fieldType: string) => void;
+}
+
+// Sidebar tiles for every registered field type. Tiles can be dragged onto the
+// document, or pressed (Enter/Space) to arm them for click or keyboard placement.
+export default function FieldPalette({
+	enabled,
+	draggingItem,
+	armedItem,
+	onDragStart,
+	onDragEnd,
+	onPointerDragStart,
+	onArm,
+}: FieldPaletteProps) {
+	return (
+		<div className="space-y-4">
+			{getFieldTypes().map((definition) => (
+				<button
+					key={definition.type}
+					type="button"
+					className={`w-full text-left p-3 touch-none bg-white rounded-lg shadow-sm border ${armedItem === definition.type ? "border-blue-500 ring-2 ring-blue-300" : "border-gray-200"} ${enabled ? "cursor-grab hover:bg-gray-50" : "cursor-not-allowed opacity-50"} ${draggingItem === definition.type ? "opacity-50" : ""}`}
+					draggable={enabled}
+					disabled={!enabled}
+					aria-pressed={armedItem === definition.type}
+					onDragStart={(e) => onDragStart(e, definition.type)}
+					onDragEnd={onDragEnd}
+					onPointerDown={(e) => {
+						if (enabled && isPointerDragInput(e)) {
+							onPointerDragStart(e, definition.type);
+						}
+					}}
+					onClick={() => onArm(definition.type)}
+				>
+					<span className="flex items-center">
+						<span className="w-8 h-8 flex items-center justify-center mr-3">
+							{definition.icon}
+						</span>
+						<span className="font-medium">{definition.label}</span>
+					</span>
+				</button>
+			))}
+		</div>
+	);
+}
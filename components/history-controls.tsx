@@ -0,0 +1,94 @@
+"use client";
+
+import type { Instance } from "@nutrient-sdk/viewer";
+import { useEffect, useRef, useState } from "react";
+import type { DiagnosticInput } from "@/lib/diagnostics";
+import {
+	createFieldHistory,
+	type FieldHistory,
+	type FieldHistoryState,
+	historyShortcut,
+} from "@/lib/field-history";
+import { asDocument } from "@/lib/placed-fields";
+
+interface HistoryControlsProps {
+	// A new instance means a new document, which starts with an empty history
+	instance: Instance | null;
+	onDiagnostic: (input: DiagnosticInput) => void;
+}
+
+const EMPTY_HISTORY: FieldHistoryState = { canUndo: false, canRedo: false };
+
+// Sidebar undo/redo buttons and their keyboard shortcuts
+export default function HistoryControls({
+	instance,
+	onDiagnostic,
+}: HistoryControlsProps) {
+	const historyRef = useRef<FieldHistory | null>(null);
+	const [state, setState] = useState<FieldHistoryState>(EMPTY_HISTORY);
+	const onDiagnosticRef = useRef(onDiagnostic);
+
+	useEffect(() => {
+		onDiagnosticRef.current = onDiagnostic;
+	}, [onDiagnostic]);
+
+	useEffect(() => {
+		if (!instance) return;
+
+		const history = createFieldHistory(instance, setState, (error) =>
+			onDiagnosticRef.current({
+				level: "error",
+				code: "field-history-failed",
+				message: "The change could not be undone or redone",
+				error,
+			}),
+		);
+		historyRef.current = history;
+
+		const handleKeyDown = (event: KeyboardEvent) => {
+			const action = historyShortcut(event);
+			if (!action) return;
+			event.preventDefault();
+			history[action]();
+		};
+
+		// Keys pressed inside the viewer's iframe don't reach this window.
+		// A shadow root's do, so it mustn't get a second listener.
+		const root = instance.contentDocument;
+		const contentDocument = asDocument(root);
+		const frameDocument = contentDocument !== document ? contentDocument : null;
+
+		window.addEventListener("keydown", handleKeyDown);
+		frameDocument?.addEventListener("keydown", handleKeyDown);
+		return () => {
+			window.removeEventListener("keydown", handleKeyDown);
+			frameDocument?.removeEventListener("keydown", handleKeyDown);
+			history.destroy();
+			historyRef.current = null;
+			setState(EMPTY_HISTORY);
+		};
+	}, [instance]);
+
+	return (
+		<div className="mb-4 pb-4 border-b border-gray-200 flex gap-2 text-sm">
+			<button
+				type="button"
+				className="flex-1 px-3 py-1 bg-white border border-gray-200 rounded hover:bg-gray-50 disabled:opacity-50"
+				disabled={!state.canUndo}
+				onClick={() => historyRef.current?.undo()}
+				title="Undo (Ctrl/Cmd+Z)"
+			>
+				↶ Undo
+			</button>
+			<button
+				type="button"
+				className="flex-1 px-3 py-1 bg-white border border-gray-200 rounded hover:bg-gray-50 disabled:opacity-50"
+				disabled={!state.canRedo}
+				onClick={() => historyRef.current?.redo()}
+				title="Redo (Shift+Ctrl/Cmd+Z)"
+			>
+				↷ Redo
+			</button>
+		</div>
+	);
+}
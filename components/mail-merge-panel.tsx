@@ -0,0 +1,447 @@
+"use client";
+
+import type { Instance } from "@nutrient-sdk/viewer";
+import { useEffect, useRef, useState } from "react";
+import {
+	type BindableField,
+	bindByName,
+	getBindableFields,
+	setDataKey,
+} from "@/lib/data-binding";
+import { type DiagnosticInput, toError } from "@/lib/diagnostics";
+import { downloadBlob, downloadUrl } from "@/lib/export";
+import {
+	type Dataset,
+	fillDocuments,
+	type MergedDocument,
+	type MergeIssue,
+	parseDataset,
+	validateMerge,
+} from "@/lib/mail-merge";
+import { getPlacedFields } from "@/lib/placed-fields";
+import { compareTabOrder } from "@/lib/tab-order";
+
+interface MailMergePanelProps {
+	instance: Instance | null;
+	documentName: string;
+	onDiagnostic: (input: DiagnosticInput) => void;
+}
+
+// Bindable fields of the open document, kept with the instance they were read from
+interface Bindings {
+	instance: Instance;
+	fields: BindableField[];
+}
+
+const REFRESH_EVENTS = ["annotations.change", "formFields.change"] as const;
+
+// Issues listed before the rest are summed up
+const MAX_LISTED_ISSUES = 20;
+
+// Filled documents are uploaded this many at a time, so only one batch is
+// held in the browser
+const MERGE_BATCH_SIZE = 20;
+
+async function loadBindableFields(instance: Instance) {
+	return getBindableFields(
+		(await getPlacedFields(instance)).sort(compareTabOrder),
+	);
+}
+
+function describeIssue({ row, message }: MergeIssue): string {
+	return row === null ? message : `Row ${row}: ${message}`;
+}
+
+// Sidebar section that binds fields to the columns of a CSV or JSON dataset
+// and generates one filled PDF per row, downloaded as a zip
+export default function MailMergePanel({
+	instance,
+	documentName,
+	onDiagnostic,
+}: MailMergePanelProps) {
+	const [bindings, setBindings] = useState<Bindings | null>(null);
+	const [dataset, setDataset] = useState<Dataset | null>(null);
+	const [previewRow, setPreviewRow] = useState(1);
+	const [nameColumn, setNameColumn] = useState<string | null>(null);
+	const [flatten, setFlatten] = useState(false);
+	const [busy, setBusy] = useState(false);
+	const [status, setStatus] = useState<string | null>(null);
+	const onDiagnosticRef = useRef(onDiagnostic);
+
+	useEffect(() => {
+		onDiagnosticRef.current = onDiagnostic;
+	}, [onDiagnostic]);
+
+	const fields = bindings?.instance === instance ? bindings.fields : [];
+
+	useEffect(() => {
+		if (!instance) return;
+
+		const refresh = () => {
+			loadBindableFields(instance)
+				.then((loaded) => setBindings({ instance, fields: loaded }))
+				.catch((error) =>
+					onDiagnosticRef.current({
+						level: "error",
+						code: "fields-read-failed",
+						message: "Could not list the fields to merge",
+						error: toError(error),
+					}),
+				);
+		};
+		refresh();
+
+		for (const event of REFRESH_EVENTS) {
+			instance.addEventListener(event, refresh);
+		}
+		return () => {
+			for (const event of REFRESH_EVENTS) {
+				instance.removeEventListener(event, refresh);
+			}
+		};
+	}, [instance]);
+
+	if (!instance) return null;
+
+	const issues = dataset ? validateMerge(dataset, fields) : [];
+	const bindingIssues = issues.filter(({ row }) => row === null);
+	const skippedRows = new Set(issues.flatMap(({ row }) => row ?? []));
+	const mergeableRows = dataset
+		? dataset.rows.flatMap((_, index) =>
+				skippedRows.has(index + 1) ? [] : [index],
+			)
+		: [];
+	const baseName = documentName.replace(/\.pdf$/i, "") || "document";
+
+	const importDataset = async (file: File) => {
+		try {
+			const loaded = parseDataset(file.name, await file.text());
+			setDataset(loaded);
+			setPreviewRow(1);
+			setNameColumn(null);
+			setStatus(
+				`${loaded.rows.length} row(s) and ${loaded.columns.length} column(s) in ${loaded.name}`,
+			);
+		} catch (error) {
+			// Usually a malformed file, which the status describes
+			onDiagnostic({
+				level: "warning",
+				code: "dataset-read-failed",
+				message: `Could not read ${file.name}`,
+				error: toError(error),
+			});
+			setStatus(
+				error instanceof Error ? error.message : "Could not read the dataset",
+			);
+		}
+	};
+
+	const bind = async (binding: BindableField, dataKey: string) => {
+		try {
+			await setDataKey(instance, binding.field, dataKey || null);
+		} catch (error) {
+			onDiagnostic({
+				level: "error",
+				code: "field-update-failed",
+				message: "Could not bind the field",
+				error: toError(error),
+			});
+			setStatus("Could not bind the field");
+		}
+	};
+
+	const bindAll = async () => {
+		if (!dataset) return;
+		try {
+			const bound = await bindByName(instance, fields, dataset.columns);
+			setStatus(`Bound ${bound} field(s) by name`);
+		} catch (error) {
+			onDiagnostic({
+				level: "error",
+				code: "field-update-failed",
+				message: "Could not bind the fields",
+				error: toError(error),
+			});
+			setStatus("Could not bind the fields");
+		}
+	};
+
+	const fill = async (
+		rowIndexes: number[],
+		onDocument: (document: MergedDocument) => Promise<void> | void,
+	) => {
+		if (!dataset) return;
+		await fillDocuments(await instance.exportPDF(), dataset, fields, {
+			rowIndexes,
+			nameColumn,
+			baseName,
+			flatten,
+			onDocument,
+			onProgress: (done, total) => setStatus(`Filled ${done} of ${total}`),
+		});
+	};
+
+	// Open the row's filled PDF in a new tab. The tab is opened right away so
+	// the browser doesn't block it as a popup.
+	const preview = async () => {
+		if (!dataset) return;
+		const tab = window.open("", "_blank");
+
+		setBusy(true);
+		try {
+			const documents: MergedDocument[] = [];
+			await fill([previewRow - 1], (document) => {
+				documents.push(document);
+			});
+			const [filled] = documents;
+			const url = URL.createObjectURL(filled.data);
+			if (tab) {
+				tab.location.href = url;
+			} else {
+				downloadBlob(filled.data, filled.fileName);
+			}
+			setStatus(`Previewing row ${previewRow}`);
+			setTimeout(() => URL.revokeObjectURL(url), 60_000);
+		} catch (error) {
+			tab?.close();
+			onDiagnostic({
+				level: "error",
+				code: "mail-merge-failed",
+				message: `Could not preview row ${previewRow}`,
+				error: toError(error),
+			});
+			setStatus("Could not preview the row");
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	const generate = async () => {
+		if (!dataset) return;
+
+		setBusy(true);
+		try {
+			const started = await fetch("/api/mail-merge", {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ name: `${baseName}-merge` }),
+			});
+			if (!started.ok) throw new Error((await started.json()).error);
+			const { id }: { id: string } = await started.json();
+
+			const upload = async (form: FormData) => {
+				const response = await fetch(`/api/mail-merge/${id}`, {
+					method: "POST",
+					body: form,
+				});
+				if (!response.ok) throw new Error((await response.json()).error);
+			};
+
+			// The server zips each batch as it arrives
+			let batch = new FormData();
+			let batchSize = 0;
+			await fill(mergeableRows, async ({ fileName, data }) => {
+				batch.append("documents", data, fileName);
+				batchSize++;
+				if (batchSize < MERGE_BATCH_SIZE) return;
+				await upload(batch);
+				batch = new FormData();
+				batchSize = 0;
+			});
+			if (issues.length > 0) {
+				batch.append(
+					"report",
+					JSON.stringify(
+						{
+							dataset: dataset.name,
+							generated: mergeableRows.length,
+							skippedRows: [...skippedRows],
+							issues,
+						},
+						null,
+						2,
+					),
+				);
+			}
+			await upload(batch);
+
+			downloadUrl(`/api/mail-merge/${id}`, `${baseName}-merge.zip`);
+			setStatus(
+				`Generated ${mergeableRows.length} PDF(s)${skippedRows.size > 0 ? `, skipped ${skippedRows.size} row(s)` : ""}`,
+			);
+		} catch (error) {
+			onDiagnostic({
+				level: "error",
+				code: "mail-merge-failed",
+				message: "Could not generate the merged documents",
+				error: toError(error),
+				retry: generate,
+			});
+			setStatus("Could not generate the documents");
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	return (
+		<div className="mb-4 pb-4 border-b border-gray-200 space-y-2 text-sm">
+			<h2 className="font-semibold">Mail merge</h2>
+			<label className="block">
+				<span className="sr-only">Import CSV or JSON data</span>
+				<input
+					type="file"
+					accept=".csv,.json,text/csv,application/json"
+					className="w-full"
+					onChange={(e) => {
+						const file = e.target.files?.[0];
+						if (file) importDataset(file);
+						e.target.value = "";
+					}}
+				/>
+			</label>
+
+			{fields.length === 0 && (
+				<p className="text-gray-600">No text or choice fields to fill</p>
+			)}
+
+			{fields.length > 0 && (
+				<ul className="space-y-1">
+					{fields.map((binding) => (
+						<li
+							key={binding.field.formField.id}
+							className="flex items-center gap-2"
+						>
+							<span
+								className="flex-1 truncate"
+								title={binding.field.formField.name}
+							>
+								{binding.field.formField.name}
+							</span>
+							<select
+								className="max-w-[50%] px-1 bg-white border border-gray-200 rounded"
+								aria-label={`Column for ${binding.field.formField.name}`}
+								value={binding.dataKey ?? ""}
+								onChange={(e) => bind(binding, e.target.value)}
+							>
+								<option value="">Not bound</option>
+								{/* Keep a binding the dataset doesn't have selectable */}
+								{binding.dataKey &&
+									!dataset?.columns.includes(binding.dataKey) && (
+										<option value={binding.dataKey}>{binding.dataKey}</option>
+									)}
+								{dataset?.columns.map((column) => (
+									<option key={column} value={column}>
+										{column}
+									</option>
+								))}
+							</select>
+						</li>
+					))}
+				</ul>
+			)}
+
+			{dataset && (
+				<>
+					<button
+						type="button"
+						className="text-blue-600 hover:underline"
+						onClick={bindAll}
+					>
+						Bind fields by name
+					</button>
+
+					{issues.length > 0 && (
+						<div className="p-2 bg-yellow-50 border border-yellow-200 rounded text-yellow-800">
+							<p className="font-medium">
+								{bindingIssues.length > 0
+									? "Fix the bindings before generating"
+									: `${skippedRows.size} row(s) with missing or invalid values will be skipped`}
+							</p>
+							<ul className="list-disc ml-4 max-h-32 overflow-y-auto">
+								{issues.slice(0, MAX_LISTED_ISSUES).map((issue) => (
+									<li key={`${issue.row}-${issue.fieldName}-${issue.message}`}>
+										{describeIssue(issue)}
+									</li>
+								))}
+							</ul>
+							{issues.length > MAX_LISTED_ISSUES && (
+								<p>and {issues.length - MAX_LISTED_ISSUES} more</p>
+							)}
+						</div>
+					)}
+
+					<div className="flex items-center gap-2">
+						<label className="flex items-center gap-1">
+							Row
+							<input
+								type="number"
+								min={1}
+								max={dataset.rows.length}
+								className="w-16 px-1 bg-white border border-gray-200 rounded"
+								value={previewRow}
+								onChange={(e) =>
+									setPreviewRow(
+										Math.min(
+											Math.max(1, Number(e.target.value) || 1),
+											dataset.rows.length,
+										),
+									)
+								}
+							/>
+						</label>
+						<button
+							type="button"
+							className="px-3 py-1 bg-white border border-gray-200 rounded hover:bg-gray-50 disabled:opacity-50"
+							disabled={busy || bindingIssues.length > 0}
+							onClick={preview}
+						>
+							Preview
+						</button>
+					</div>
+
+					<label className="flex items-center gap-2">
+						File names
+						<select
+							className="min-w-0 flex-1 px-1 bg-white border border-gray-200 rounded"
+							value={nameColumn ?? ""}
+							onChange={(e) => setNameColumn(e.target.value || null)}
+						>
+							<option value="">Row number only</option>
+							{dataset.columns.map((column) => (
+								<option key={column} value={column}>
+									Row number and {column}
+								</option>
+							))}
+						</select>
+					</label>
+
+					<label className="flex items-center gap-2">
+						<input
+							type="checkbox"
+							checked={flatten}
+							onChange={(e) => setFlatten(e.target.checked)}
+						/>
+						Flatten the filled fields
+					</label>
+
+					<button
+						type="button"
+						className="w-full px-3 py-1 bg-white border border-gray-200 rounded hover:bg-gray-50 disabled:opacity-50"
+						disabled={
+							busy || bindingIssues.length > 0 || mergeableRows.length === 0
+						}
+						onClick={generate}
+					>
+						Generate {mergeableRows.length} PDF(s) as a zip
+					</button>
+				</>
+			)}
+
+			{status && (
+				<p className="text-xs text-gray-600" aria-live="polite">
+					{status}
+				</p>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,55 @@
+"use client";
+
+interface PlacementSettingsProps {
+	snapGrid: number | null;
+	smartGuides: boolean;
+	onSnapGridChange: (snapGrid: number | null) => void;
+	onSmartGuidesChange: (smartGuides: boolean) => void;
+}
+
+const DEFAULT_GRID_SIZE = 10;
+
+// Sidebar controls for snapping dropped fields
+export default function PlacementSettings({
+	snapGrid,
+	smartGuides,
+	onSnapGridChange,
+	onSmartGuidesChange,
+}: PlacementSettingsProps) {
+	return (
+		<div className="mb-4 pb-4 border-b border-gray-200 space-y-2 text-sm">
+			<h2 className="font-semibold">Placement</h2>
+			<label className="flex items-center gap-2">
+				<input
+					type="checkbox"
+					checked={snapGrid !== null}
+					onChange={(e) =>
+						onSnapGridChange(e.target.checked ? DEFAULT_GRID_SIZE : null)
+					}
+				/>
+				<span>Snap to grid</span>
+				{snapGrid !== null && (
+					<input
+						type="number"
+						min={1}
+						aria-label="Grid size in points"
+						className="w-16 px-1 bg-white border border-gray-200 rounded"
+						value={snapGrid}
+						onChange={(e) => {
+							const size = Number(e.target.value);
+							if (size > 0) onSnapGridChange(size);
+						}}
+					/>
+				)}
+			</label>
+			<label className="flex items-center gap-2">
+				<input
+					type="checkbox"
+					checked={smartGuides}
+					onChange={(e) => onSmartGuidesChange(e.target.checked)}
+				/>
+				<span>Alignment guides</span>
+			</label>
+		</div>
+	);
+}
@@ -0,0 +1,189 @@
+"use client";
+
+import type {
+	AnnotationsUnion,
+	Instance,
+	List,
+	WidgetAnnotation,
+} from "@nutrient-sdk/viewer";
+import { useEffect, useState } from "react";
+import { type DiagnosticInput, toError } from "@/lib/diagnostics";
+import {
+	createRecipient,
+	getWidgetRecipientId,
+	isFieldWidget,
+	type Recipient,
+	reassignField,
+	reassignRecipientFields,
+} from "@/lib/recipients";
+
+interface RecipientManagerProps {
+	instance: Instance | null;
+	recipients: Recipient[];
+	activeRecipientId: string;
+	onRecipientsChange: (recipients: Recipient[]) => void;
+	onActiveRecipientChange: (recipientId: string) => void;
+	onDiagnostic: (input: DiagnosticInput) => void;
+}
+
+// Sidebar section to manage signers and reassign the selected field
+export default function RecipientManager({
+	instance,
+	recipients,
+	activeRecipientId,
+	onRecipientsChange,
+	onActiveRecipientChange,
+	onDiagnostic,
+}: RecipientManagerProps) {
+	const [selectedWidget, setSelectedWidget] = useState<WidgetAnnotation | null>(
+		null,
+	);
+
+	// Follow the widget selected in the viewer
+	useEffect(() => {
+		if (!instance) return;
+
+		const handleSelectionChange = (annotations: List<AnnotationsUnion>) => {
+			const selected = annotations?.size === 1 ? annotations.first() : null;
+			setSelectedWidget(selected && isFieldWidget(selected) ? selected : null);
+		};
+
+		instance.addEventListener(
+			"annotationSelection.change",
+			handleSelectionChange,
+		);
+		return () => {
+			instance.removeEventListener(
+				"annotationSelection.change",
+				handleSelectionChange,
+			);
+			setSelectedWidget(null);
+		};
+	}, [instance]);
+
+	const addRecipient = () => {
+		const recipient = createRecipient(recipients);
+		onRecipientsChange([...recipients, recipient]);
+		onActiveRecipientChange(recipient.id);
+	};
+
+	const renameRecipient = (recipientId: string, name: string) => {
+		onRecipientsChange(
+			recipients.map((recipient) =>
+				recipient.id === recipientId ? { ...recipient, name } : recipient,
+			),
+		);
+	};
+
+	const removeRecipient = async (recipientId: string) => {
+		const remaining = recipients.filter(
+			(recipient) => recipient.id !== recipientId,
+		);
+		// There always has to be someone to assign new fields to
+		if (remaining.length === 0) return;
+
+		// Hand the removed recipient's fields over to the first remaining one
+		if (instance) {
+			try {
+				await reassignRecipientFields(instance, recipientId, remaining[0]);
+			} catch (error) {
+				onDiagnostic({
+					level: "error",
+					code: "field-update-failed",
+					message: "Could not hand the recipient's fields over",
+					error: toError(error),
+				});
+				return;
+			}
+		}
+
+		onRecipientsChange(remaining);
+		if (activeRecipientId === recipientId) {
+			onActiveRecipientChange(remaining[0].id);
+		}
+	};
+
+	const reassignSelected = async (recipientId: string) => {
+		const recipient = recipients.find(({ id }) => id === recipientId);
+		if (!instance || !selectedWidget || !recipient) return;
+
+		try {
+			await reassignField(instance, selectedWidget, recipient);
+			setSelectedWidget(null);
+		} catch (error) {
+			onDiagnostic({
+				level: "error",
+				code: "field-update-failed",
+				message: "Could not reassign the field",
+				error: toError(error),
+			});
+		}
+	};
+
+	return (
+		<div className="mb-4 pb-4 border-b border-gray-200">
+			<h2 className="text-sm font-semibold mb-2">Recipients</h2>
+			<ul className="space-y-2">
+				{recipients.map((recipient) => (
+					<li key={recipient.id} className="flex items-center gap-2">
+						<input
+							type="radio"
+							name="active-recipient"
+							aria-label={`Assign new fields to ${recipient.name}`}
+							checked={recipient.id === activeRecipientId}
+							onChange={() => onActiveRecipientChange(recipient.id)}
+						/>
+						<span
+							className="w-3 h-3 rounded-full shrink-0"
+							style={{ backgroundColor: recipient.color }}
+						/>
+						<input
+							type="text"
+							className="min-w-0 flex-1 px-1 text-sm bg-white border border-gray-200 rounded"
+							value={recipient.name}
+							onChange={(e) => renameRecipient(recipient.id, e.target.value)}
+						/>
+						<button
+							type="button"
+							className="text-xs text-gray-500 hover:text-red-600 disabled:opacity-30"
+							disabled={recipients.length === 1}
+							onClick={() => removeRecipient(recipient.id)}
+							aria-label={`Remove ${recipient.name}`}
+						>
+							✕
+						</button>
+					</li>
+				))}
+			</ul>
+			<button
+				type="button"
+				className="mt-2 text-sm text-blue-600 hover:underline"
+				onClick={addRecipient}
+			>
+				+ Add recipient
+			</button>
+
+			{selectedWidget && (
+				<label className="block mt-3 text-sm">
+					<span className="block mb-1 text-gray-600">
+						Selected field recipient
+					</span>
+					<select
+						className="w-full px-1 py-1 bg-white border border-gray-200 rounded"
+						value={getWidgetRecipientId(selectedWidget) ?? ""}
+						onChange={(e) => reassignSelected(e.target.value)}
+					>
+						<option value="" disabled>
+							Unassigned
+						</option>
+						{recipients.map((recipient) => (
+							<option key={recipient.id} value={recipient.id}>
+								{recipient.name}
+							</option>
+						))}
+					</select>
+				</label>
+			)}
+		</div>
+	);
+}
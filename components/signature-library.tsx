@@ -0,0 +1,411 @@
+"use client";
+
+import type { Instance } from "@nutrient-sdk/viewer";
+import Image from "next/image";
+import { useEffect, useRef, useState } from "react";
+import SignaturePad from "@/components/signature-pad";
+import { type DiagnosticInput, toError } from "@/lib/diagnostics";
+import { resolvePagePoint } from "@/lib/pointer-placement";
+import type { Recipient } from "@/lib/recipients";
+import {
+	fillSignatureField,
+	findFieldAt,
+	findSignatureTarget,
+	matchesKind,
+	renderTypedSignature,
+	renderUploadedSignature,
+	type SavedSignature,
+	SIGNATURE_DRAG_TYPE,
+	SIGNATURE_KINDS,
+	type SignatureKind,
+	toSignatureImage,
+} from "@/lib/signatures";
+
+interface SignatureLibraryProps {
+	instance: Instance | null;
+	// One-click fills go to this recipient's fields
+	signer: Recipient;
+	onDiagnostic: (input: DiagnosticInput) => void;
+}
+
+type InputMethod = "draw" | "type" | "upload";
+
+const INPUT_METHODS: { method: InputMethod; label: string }[] = [
+	{ method: "draw", label: "Draw" },
+	{ method: "type", label: "Type" },
+	{ method: "upload", label: "Upload" },
+];
+
+const KIND_LABELS: Record<SignatureKind, string> = {
+	signature: "Signature",
+	initials: "Initials",
+};
+
+async function fetchSignatures(): Promise<SavedSignature[]> {
+	const response = await fetch("/api/signatures");
+	if (!response.ok) throw new Error(response.statusText);
+	return response.json();
+}
+
+// Sidebar section to save a signature and initials once and sign fields with
+// them in one click, or by dragging one onto a field
+export default function SignatureLibrary({
+	instance,
+	signer,
+	onDiagnostic,
+}: SignatureLibraryProps) {
+	const [signatures, setSignatures] = useState<SavedSignature[]>([]);
+	const [kind, setKind] = useState<SignatureKind>("signature");
+	const [method, setMethod] = useState<InputMethod>("draw");
+	const [name, setName] = useState("");
+	const [typedText, setTypedText] = useState("");
+	const [upload, setUpload] = useState<File | null>(null);
+	// Remounting the pad clears it
+	const [padKey, setPadKey] = useState(0);
+	const drawingRef = useRef<HTMLCanvasElement | null>(null);
+	const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(
+		null,
+	);
+	const [status, setStatus] = useState<string | null>(null);
+	const signaturesRef = useRef(signatures);
+	const onDiagnosticRef = useRef(onDiagnostic);
+
+	useEffect(() => {
+		signaturesRef.current = signatures;
+		onDiagnosticRef.current = onDiagnostic;
+	}, [signatures, onDiagnostic]);
+
+	// Saved signatures failing to load or change are reported the same way
+	const reportFailure = (message: string, error: unknown) =>
+		onDiagnosticRef.current({
+			level: "error",
+			code: "signatures-failed",
+			message,
+			error: toError(error),
+		});
+
+	useEffect(() => {
+		fetchSignatures()
+			.then(setSignatures)
+			.catch((error) =>
+				onDiagnosticRef.current({
+					level: "error",
+					code: "signatures-failed",
+					message: "Could not list the saved signatures",
+					error: toError(error),
+				}),
+			);
+	}, []);
+
+	const sign = async (
+		signature: SavedSignature,
+		find: (instance: Instance) => ReturnType<typeof findFieldAt>,
+	) => {
+		if (!instance) return;
+
+		try {
+			const field = await find(instance);
+			if (!field || !matchesKind(field, signature.kind)) {
+				setStatus(
+					`No ${KIND_LABELS[signature.kind].toLowerCase()} field to sign`,
+				);
+				return;
+			}
+			await fillSignatureField(instance, field, signature);
+			setStatus(`Signed ${field.formField.name}`);
+		} catch (error) {
+			onDiagnosticRef.current({
+				level: "error",
+				code: "signature-apply-failed",
+				message: "Could not apply the signature",
+				error: toError(error),
+			});
+			setStatus("Could not apply the signature");
+		}
+	};
+	const signRef = useRef(sign);
+
+	useEffect(() => {
+		signRef.current = sign;
+	});
+
+	// Saved signatures can be dragged from the list onto a matching field
+	useEffect(() => {
+		const root = instance?.contentDocument;
+		if (!instance || !root) return;
+
+		const isSignatureDrag = (event: DragEvent) =>
+			Array.from(event.dataTransfer?.types ?? []).includes(SIGNATURE_DRAG_TYPE);
+
+		const handleDragOver = (event: Event) => {
+			if (isSignatureDrag(event as DragEvent)) event.preventDefault();
+		};
+		const handleDrop = (event: Event) => {
+			const dragEvent = event as DragEvent;
+			if (!isSignatureDrag(dragEvent)) return;
+			event.preventDefault();
+			event.stopPropagation();
+
+			const id = dragEvent.dataTransfer?.getData(SIGNATURE_DRAG_TYPE);
+			const signature = signaturesRef.current.find((saved) => saved.id === id);
+			const point = resolvePagePoint(
+				instance,
+				dragEvent.clientX,
+				dragEvent.clientY,
+			);
+			if (!signature || !point) return;
+
+			signRef.current(signature, (target) => findFieldAt(target, point));
+		};
+
+		root.addEventListener("dragover", handleDragOver);
+		root.addEventListener("drop", handleDrop, true);
+		return () => {
+			root.removeEventListener("dragover", handleDragOver);
+			root.removeEventListener("drop", handleDrop, true);
+		};
+	}, [instance]);
+
+	const renderInput = async (): Promise<HTMLCanvasElement | null> => {
+		switch (method) {
+			case "draw":
+				return drawingRef.current;
+			case "type":
+				return typedText.trim() ? renderTypedSignature(typedText.trim()) : null;
+			case "upload":
+				return upload ? renderUploadedSignature(upload) : null;
+		}
+	};
+
+	const save = async () => {
+		try {
+			const canvas = await renderInput();
+			const image = canvas && toSignatureImage(canvas);
+			if (!image) {
+				setStatus(`Draw, type or upload the ${kind} first`);
+				return;
+			}
+
+			const response = await fetch("/api/signatures", {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({
+					name: name.trim() || KIND_LABELS[kind],
+					kind,
+					...image,
+				}),
+			});
+			if (!response.ok) throw new Error((await response.json()).error);
+
+			const saved: SavedSignature = await response.json();
+			setName("");
+			setTypedText("");
+			setUpload(null);
+			setPadKey((key) => key + 1);
+			drawingRef.current = null;
+			setStatus(`Saved "${saved.name}"`);
+			setSignatures(await fetchSignatures());
+		} catch (error) {
+			reportFailure("Could not save the signature", error);
+			setStatus(
+				error instanceof Error ? error.message : "Could not save the signature",
+			);
+		}
+	};
+
+	const rename = async () => {
+		if (!renaming) return;
+		const { id, name: newName } = renaming;
+		setRenaming(null);
+		if (!newName.trim()) return;
+
+		try {
+			const response = await fetch(`/api/signatures/${id}`, {
+				method: "PATCH",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ name: newName.trim() }),
+			});
+			if (!response.ok) throw new Error((await response.json()).error);
+			setSignatures(await fetchSignatures());
+		} catch (error) {
+			reportFailure("Could not rename the signature", error);
+			setStatus("Could not rename the signature");
+		}
+	};
+
+	const remove = async (signature: SavedSignature) => {
+		try {
+			const response = await fetch(`/api/signatures/${signature.id}`, {
+				method: "DELETE",
+			});
+			if (!response.ok) throw new Error((await response.json()).error);
+			setStatus(`Deleted "${signature.name}"`);
+			setSignatures(await fetchSignatures());
+		} catch (error) {
+			reportFailure("Could not delete the signature", error);
+			setStatus("Could not delete the signature");
+		}
+	};
+
+	return (
+		<div className="mb-4 pb-4 border-b border-gray-200 space-y-2 text-sm">
+			<h2 className="font-semibold">Saved signatures</h2>
+
+			<div className="flex gap-3">
+				{SIGNATURE_KINDS.map((option) => (
+					<label key={option} className="inline-flex items-center gap-1">
+						<input
+							type="radio"
+							name="signature-kind"
+							checked={kind === option}
+							onChange={() => setKind(option)}
+						/>
+						{KIND_LABELS[option]}
+					</label>
+				))}
+			</div>
+
+			<div className="flex gap-1">
+				{INPUT_METHODS.map((option) => (
+					<button
+						key={option.method}
+						type="button"
+						className={`px-2 py-0.5 border rounded ${method === option.method ? "bg-blue-50 border-blue-300" : "bg-white border-gray-200 hover:bg-gray-50"}`}
+						aria-pressed={method === option.method}
+						onClick={() => setMethod(option.method)}
+					>
+						{option.label}
+					</button>
+				))}
+			</div>
+
+			{method === "draw" && (
+				<SignaturePad
+					key={padKey}
+					onChange={(canvas) => {
+						drawingRef.current = canvas;
+					}}
+				/>
+			)}
+			{method === "type" && (
+				<input
+					type="text"
+					className="w-full px-1 bg-white border border-gray-200 rounded"
+					placeholder={
+						kind === "signature" ? "Type your name" : "Type your initials"
+					}
+					value={typedText}
+					onChange={(e) => setTypedText(e.target.value)}
+				/>
+			)}
+			{method === "upload" && (
+				<input
+					type="file"
+					accept="image/png,image/jpeg"
+					className="w-full"
+					onChange={(e) => setUpload(e.target.files?.[0] ?? null)}
+				/>
+			)}
+
+			<div className="flex gap-2">
+				<input
+					type="text"
+					className="min-w-0 flex-1 px-1 bg-white border border-gray-200 rounded"
+					placeholder="Name (optional)"
+					value={name}
+					onChange={(e) => setName(e.target.value)}
+				/>
+				<button
+					type="button"
+					className="px-3 py-1 bg-white border border-gray-200 rounded hover:bg-gray-50 disabled:opacity-50"
+					onClick={save}
+				>
+					Save
+				</button>
+			</div>
+
+			{signatures.length > 0 && (
+				<ul className="space-y-1">
+					{signatures.map((signature) => (
+						<li
+							key={signature.id}
+							className="flex items-center gap-2 p-1 bg-white border border-gray-200 rounded"
+						>
+							<Image
+								src={signature.image}
+								alt={signature.name}
+								width={64}
+								height={32}
+								title="Drag onto a field to sign it"
+								className="h-8 w-16 object-contain cursor-grab"
+								draggable
+								onDragStart={(e) => {
+									e.dataTransfer.setData(SIGNATURE_DRAG_TYPE, signature.id);
+									e.dataTransfer.effectAllowed = "copy";
+								}}
+							/>
+							{renaming?.id === signature.id ? (
+								<input
+									type="text"
+									className="min-w-0 flex-1 px-1 border border-gray-200 rounded"
+									aria-label="Signature name"
+									value={renaming.name}
+									onChange={(e) =>
+										setRenaming({ id: signature.id, name: e.target.value })
+									}
+									onBlur={rename}
+									onKeyDown={(e) => {
+										if (e.key === "Enter") rename();
+										if (e.key === "Escape") setRenaming(null);
+									}}
+								/>
+							) : (
+								<span className="flex-1 truncate" title={signature.name}>
+									{signature.name}
+									<span className="block text-xs text-gray-500">
+										{KIND_LABELS[signature.kind]}
+									</span>
+								</span>
+							)}
+							<button
+								type="button"
+								className="text-blue-600 hover:underline disabled:opacity-30"
+								disabled={!instance}
+								onClick={() =>
+									sign(signature, (target) =>
+										findSignatureTarget(target, signature.kind, signer.id),
+									)
+								}
+							>
+								Use
+							</button>
+							<button
+								type="button"
+								className="text-gray-600 hover:underline"
+								onClick={() =>
+									setRenaming({ id: signature.id, name: signature.name })
+								}
+							>
+								Rename
+							</button>
+							<button
+								type="button"
+								className="text-gray-500 hover:text-red-600"
+								aria-label={`Delete ${signature.name}`}
+								onClick={() => remove(signature)}
+							>
+								✕
+							</button>
+						</li>
+					))}
+				</ul>
+			)}
+
+			{status && (
+				<p className="text-xs text-gray-600" aria-live="polite">
+					{status}
+				</p>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import { useRef } from "react";
+
+interface SignaturePadProps {
+	// Called with the canvas after each stroke, and with null once cleared
+	onChange: (canvas: HTMLCanvasElement | null) => void;
+}
+
+const WIDTH = 300;
+const HEIGHT = 100;
+// Drawn at twice the displayed size so the saved image stays sharp
+const SCALE = 2;
+const LINE_WIDTH = 2.5;
+
+// Canvas to draw a signature on with a mouse, pen or finger
+export default function SignaturePad({ onChange }: SignaturePadProps) {
+	const canvasRef = useRef<HTMLCanvasElement>(null);
+	const drawingRef = useRef(false);
+
+	const pointAt = (event: React.PointerEvent<HTMLCanvasElement>) => {
+		const rect = event.currentTarget.getBoundingClientRect();
+		return {
+			x: ((event.clientX - rect.left) / rect.width) * WIDTH * SCALE,
+			y: ((event.clientY - rect.top) / rect.height) * HEIGHT * SCALE,
+		};
+	};
+
+	const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+		const context = event.currentTarget.getContext("2d");
+		if (!context) return;
+
+		event.currentTarget.setPointerCapture(event.pointerId);
+		drawingRef.current = true;
+		const { x, y } = pointAt(event);
+		context.lineWidth = LINE_WIDTH * SCALE;
+		context.lineCap = "round";
+		context.lineJoin = "round";
+		context.strokeStyle = "#000";
+		context.beginPath();
+		context.moveTo(x, y);
+		// A tap leaves a dot
+		context.lineTo(x, y);
+		context.stroke();
+	};
+
+	const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+		const context = event.currentTarget.getContext("2d");
+		if (!drawingRef.current || !context) return;
+
+		const { x, y } = pointAt(event);
+		context.lineTo(x, y);
+		context.stroke();
+	};
+
+	const handlePointerUp = () => {
+		if (!drawingRef.current) return;
+		drawingRef.current = false;
+		onChange(canvasRef.current);
+	};
+
+	const clear = () => {
+		const canvas = canvasRef.current;
+		canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+		onChange(null);
+	};
+
+	return (
+		<div className="space-y-1">
+			<canvas
+				ref={canvasRef}
+				width={WIDTH * SCALE}
+				height={HEIGHT * SCALE}
+				className="w-full bg-white border border-gray-200 rounded touch-none cursor-crosshair"
+				style={{ aspectRatio: `${WIDTH} / ${HEIGHT}` }}
+				aria-label="Draw your signature"
+				onPointerDown={handlePointerDown}
+				onPointerMove={handlePointerMove}
+				onPointerUp={handlePointerUp}
+				onPointerCancel={handlePointerUp}
+			/>
+			<button
+				type="button"
+				className="text-xs text-gray-600 hover:underline"
+				onClick={clear}
+			>
+				Clear
+			</button>
+		</div>
+	);
+}
@@ -0,0 +1,184 @@
+"use client";
+
+import type { Instance } from "@nutrient-sdk/viewer";
+import { useEffect, useRef, useState } from "react";
+import { type DiagnosticInput, toError } from "@/lib/diagnostics";
+import { getFieldType } from "@/lib/field-types";
+import type { Recipient } from "@/lib/recipients";
+import {
+	getSigningSteps,
+	highlightField,
+	restrictEditingTo,
+	type SigningStep,
+} from "@/lib/signing";
+
+interface SigningPanelProps {
+	instance: Instance | null;
+	// The active recipient signs; only their fields are editable
+	signer: Recipient;
+	active: boolean;
+	onStart: () => void;
+	onExit: () => void;
+	onDiagnostic: (input: DiagnosticInput) => void;
+}
+
+const REFRESH_EVENTS = [
+	"formFieldValues.update",
+	"annotations.change",
+] as const;
+
+// Sidebar section that walks a signer through their fields in tab order
+export default function SigningPanel({
+	instance,
+	signer,
+	active,
+	onStart,
+	onExit,
+	onDiagnostic,
+}: SigningPanelProps) {
+	const [steps, setSteps] = useState<SigningStep[]>([]);
+	const [currentIndex, setCurrentIndex] = useState(0);
+	const [status, setStatus] = useState<string | null>(null);
+	const onDiagnosticRef = useRef(onDiagnostic);
+
+	useEffect(() => {
+		onDiagnosticRef.current = onDiagnostic;
+	}, [onDiagnostic]);
+
+	// Lock other signers' fields and keep the fill state up to date
+	useEffect(() => {
+		if (!instance || !active) return;
+
+		restrictEditingTo(instance, signer.id);
+		const refresh = () => {
+			getSigningSteps(instance, signer.id)
+				.then(setSteps)
+				.catch((error) =>
+					onDiagnosticRef.current({
+						level: "error",
+						code: "fields-read-failed",
+						message: "Could not read the signer's fields",
+						error: toError(error),
+					}),
+				);
+		};
+		refresh();
+
+		for (const event of REFRESH_EVENTS) {
+			instance.addEventListener(event, refresh);
+		}
+		return () => {
+			for (const event of REFRESH_EVENTS) {
+				instance.removeEventListener(event, refresh);
+			}
+			restrictEditingTo(instance, null);
+			highlightField(instance, null);
+		};
+	}, [instance, active, signer.id]);
+
+	const goTo = (index: number) => {
+		setCurrentIndex(index);
+		if (instance) highlightField(instance, steps[index]?.field ?? null);
+	};
+
+	const start = async () => {
+		if (!instance) return;
+
+		let signerSteps: SigningStep[];
+		try {
+			signerSteps = await getSigningSteps(instance, signer.id);
+		} catch (error) {
+			onDiagnostic({
+				level: "error",
+				code: "fields-read-failed",
+				message: `Could not start signing as ${signer.name}`,
+				error: toError(error),
+				retry: start,
+			});
+			return;
+		}
+		if (signerSteps.length === 0) {
+			setStatus(`${signer.name} has no fields to fill in`);
+			return;
+		}
+
+		setStatus(null);
+		setSteps(signerSteps);
+		setCurrentIndex(0);
+		onStart();
+		highlightField(instance, signerSteps[0].field);
+	};
+
+	const finish = () => {
+		setStatus(`${signer.name} finished signing`);
+		onExit();
+	};
+
+	if (!active) {
+		return (
+			<div className="mb-4 pb-4 border-b border-gray-200 space-y-2 text-sm">
+				<h2 className="font-semibold">Signing</h2>
+				<button
+					type="button"
+					className="w-full px-3 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+					disabled={!instance}
+					onClick={start}
+				>
+					Start signing as {signer.name}
+				</button>
+				{status && <p className="text-gray-600">{status}</p>}
+			</div>
+		);
+	}
+
+	const index = Math.min(currentIndex, Math.max(steps.length - 1, 0));
+	const current = steps[index];
+	const remaining = steps.filter(({ required, filled }) => required && !filled);
+
+	return (
+		<div className="mb-4 pb-4 border-b border-gray-200 space-y-2 text-sm">
+			<h2 className="font-semibold">Signing as {signer.name}</h2>
+			{current && (
+				<p>
+					Field {index + 1} of {steps.length}:{" "}
+					<span className="font-medium">
+						{getFieldType(current.field.fieldType)?.label ??
+							current.field.fieldType}
+					</span>
+					{current.required && <span className="text-red-600"> *</span>}
+					{current.filled && <span className="text-green-600"> ✓</span>}
+				</p>
+			)}
+			<div className="flex gap-2">
+				<button
+					type="button"
+					className="flex-1 px-3 py-1 bg-white border border-gray-200 rounded hover:bg-gray-50 disabled:opacity-50"
+					disabled={steps.length < 2}
+					onClick={() => goTo((index + 1) % steps.length)}
+				>
+					Next field
+				</button>
+				<button
+					type="button"
+					className="flex-1 px-3 py-1 rounded bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+					disabled={remaining.length > 0}
+					onClick={finish}
+				>
+					Finish
+				</button>
+			</div>
+			{remaining.length > 0 && (
+				<p className="text-gray-600">
+					{remaining.length} required field(s) left to fill in
+				</p>
+			)}
+			<button
+				type="button"
+				className="text-gray-500 hover:underline"
+				onClick={onExit}
+			>
+				Exit signing
+			</button>
+		</div>
+	);
+}
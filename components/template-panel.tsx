@@ -0,0 +1,220 @@
+"use client";
+
+import type { Instance } from "@nutrient-sdk/viewer";
+import { useEffect, useRef, useState } from "react";
+import { type DiagnosticInput, toError } from "@/lib/diagnostics";
+import type { Recipient } from "@/lib/recipients";
+import {
+	applyTemplate,
+	describeMismatch,
+	exportTemplate,
+	type FieldTemplate,
+	findTemplateMismatches,
+	type TemplateMismatch,
+	type TemplateSummary,
+} from "@/lib/templates";
+
+interface TemplatePanelProps {
+	instance: Instance | null;
+	recipients: Recipient[];
+	onRecipientsChange: (recipients: Recipient[]) => void;
+	onDiagnostic: (input: DiagnosticInput) => void;
+}
+
+// A template waiting for confirmation because it doesn't fit the document
+interface PendingTemplate {
+	template: FieldTemplate;
+	mismatches: TemplateMismatch[];
+}
+
+async function fetchTemplates(): Promise<TemplateSummary[]> {
+	const response = await fetch("/api/templates");
+	if (!response.ok) throw new Error(response.statusText);
+	return response.json();
+}
+
+// Sidebar section to save the field layout as a template and apply saved ones
+export default function TemplatePanel({
+	instance,
+	recipients,
+	onRecipientsChange,
+	onDiagnostic,
+}: TemplatePanelProps) {
+	const [templates, setTemplates] = useState<TemplateSummary[]>([]);
+	const [templateName, setTemplateName] = useState("");
+	const [pending, setPending] = useState<PendingTemplate | null>(null);
+	const [status, setStatus] = useState<string | null>(null);
+	const onDiagnosticRef = useRef(onDiagnostic);
+
+	useEffect(() => {
+		onDiagnosticRef.current = onDiagnostic;
+	}, [onDiagnostic]);
+
+	const reportFailure = (message: string, error: unknown) =>
+		onDiagnosticRef.current({
+			level: "error",
+			code: "template-failed",
+			message,
+			error: toError(error),
+		});
+
+	useEffect(() => {
+		fetchTemplates()
+			.then(setTemplates)
+			.catch((error) =>
+				onDiagnosticRef.current({
+					level: "error",
+					code: "template-failed",
+					message: "Could not list the saved templates",
+					error: toError(error),
+				}),
+			);
+	}, []);
+
+	const saveTemplate = async () => {
+		if (!instance || !templateName.trim()) return;
+
+		try {
+			const template = await exportTemplate(
+				instance,
+				templateName.trim(),
+				recipients,
+			);
+			const response = await fetch("/api/templates", {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify(template),
+			});
+			if (!response.ok) throw new Error((await response.json()).error);
+
+			setTemplateName("");
+			setStatus(
+				`Saved "${template.name}" with ${template.fields.length} field(s)`,
+			);
+			setTemplates(await fetchTemplates());
+		} catch (error) {
+			reportFailure("Could not save the template", error);
+			setStatus("Could not save the template");
+		}
+	};
+
+	const placeTemplate = async (template: FieldTemplate) => {
+		if (!instance) return;
+		setPending(null);
+
+		// Bring in the template's recipients that aren't set up yet
+		const missing = template.recipients.filter(
+			({ id }) => !recipients.some((recipient) => recipient.id === id),
+		);
+		const allRecipients = [...recipients, ...missing];
+		if (missing.length > 0) onRecipientsChange(allRecipients);
+
+		try {
+			const created = await applyTemplate(instance, template, allRecipients);
+			setStatus(`Placed ${created} of ${template.fields.length} field(s)`);
+		} catch (error) {
+			reportFailure("Could not apply the template", error);
+			setStatus("Could not apply the template");
+		}
+	};
+
+	const loadTemplate = async (id: string) => {
+		if (!instance) return;
+
+		try {
+			const response = await fetch(`/api/templates/${id}`);
+			if (!response.ok) throw new Error((await response.json()).error);
+			const template: FieldTemplate = await response.json();
+
+			const mismatches = findTemplateMismatches(instance, template);
+			if (mismatches.length > 0) {
+				setPending({ template, mismatches });
+				return;
+			}
+			await placeTemplate(template);
+		} catch (error) {
+			reportFailure("Could not load the template", error);
+			setStatus("Could not load the template");
+		}
+	};
+
+	return (
+		<div className="mb-4 pb-4 border-b border-gray-200">
+			<h2 className="text-sm font-semibold mb-2">Templates</h2>
+			<div className="flex gap-2">
+				<input
+					type="text"
+					className="min-w-0 flex-1 px-1 text-sm bg-white border border-gray-200 rounded"
+					placeholder="Template name"
+					value={templateName}
+					onChange={(e) => setTemplateName(e.target.value)}
+				/>
+				<button
+					type="button"
+					className="text-sm text-blue-600 hover:underline disabled:opacity-30"
+					disabled={!instance || !templateName.trim()}
+					onClick={saveTemplate}
+				>
+					Save
+				</button>
+			</div>
+
+			{templates.length > 0 && (
+				<ul className="mt-2 space-y-1 text-sm">
+					{templates.map((template) => (
+						<li key={template.id} className="flex items-center gap-2">
+							<span className="flex-1 truncate" title={template.name}>
+								{template.name}
+							</span>
+							<span className="text-xs text-gray-500">
+								{template.fieldCount}
+							</span>
+							<button
+								type="button"
+								className="text-blue-600 hover:underline disabled:opacity-30"
+								disabled={!instance}
+								onClick={() => loadTemplate(template.id)}
+							>
+								Apply
+							</button>
+						</li>
+					))}
+				</ul>
+			)}
+
+			{pending && (
+				<div className="mt-2 p-2 bg-yellow-50 border border-yellow-200 rounded text-sm">
+					<p className="font-medium">
+						&quot;{pending.template.name}&quot; doesn&apos;t match this
+						document:
+					</p>
+					<ul className="list-disc ml-4 my-1 text-gray-700">
+						{pending.mismatches.map((mismatch) => (
+							<li key={describeMismatch(mismatch)}>
+								{describeMismatch(mismatch)}
+							</li>
+						))}
+					</ul>
+					<div className="flex gap-3">
+						<button
+							type="button"
+							className="text-blue-600 hover:underline"
+							onClick={() => placeTemplate(pending.template)}
+						>
+							Apply anyway
+						</button>
+						<button
+							type="button"
+							className="text-gray-600 hover:underline"
+							onClick={() => setPending(null)}
+						>
+							Cancel
+						</button>
+					</div>
+				</div>
+			)}
+
+			{status && <p className="mt-2 text-xs text-gray-600">{status}</p>}
+		</div>
+	);
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Diagnostic, DiagnosticChannel } from "@/lib/diagnostics";
+
+interface ToastAreaProps {
+	diagnostics: DiagnosticChannel;
+}
+
+// Warnings go away on their own; errors stay until dismissed or retried
+const WARNING_TIMEOUT_MS = 6000;
+
+// Older toasts make way past this many
+const MAX_TOASTS = 4;
+
+const LEVEL_STYLES = {
+	warning: "border-yellow-200 bg-yellow-50 text-yellow-800",
+	error: "border-red-200 bg-red-50 text-red-800",
+};
+
+// Shows the warnings and errors reported on the channel as toasts
+export default function ToastArea({ diagnostics }: ToastAreaProps) {
+	const [toasts, setToasts] = useState<Diagnostic[]>([]);
+
+	useEffect(() => {
+		const timers = new Set<ReturnType<typeof setTimeout>>();
+		const dismissLater = (id: number) => {
+			const timer = setTimeout(() => {
+				timers.delete(timer);
+				setToasts((current) => current.filter((toast) => toast.id !== id));
+			}, WARNING_TIMEOUT_MS);
+			timers.add(timer);
+		};
+
+		const unsubscribe = diagnostics.subscribe((diagnostic) => {
+			if (diagnostic.level === "info") return;
+			setToasts((current) => [...current, diagnostic].slice(-MAX_TOASTS));
+			if (diagnostic.level === "warning") dismissLater(diagnostic.id);
+		});
+		return () => {
+			unsubscribe();
+			for (const timer of timers) clearTimeout(timer);
+		};
+	}, [diagnostics]);
+
+	const dismiss = (id: number) =>
+		setToasts((current) => current.filter((toast) => toast.id !== id));
+
+	if (toasts.length === 0) return null;
+
+	return (
+		<div className="fixed bottom-4 right-4 z-50 w-80 space-y-2 text-sm">
+			{toasts.map((toast) => (
+				<div
+					key={toast.id}
+					role={toast.level === "error" ? "alert" : "status"}
+					className={`p-2 border rounded shadow ${LEVEL_STYLES[toast.level as keyof typeof LEVEL_STYLES]}`}
+				>
+					<p>{toast.message}</p>
+					{toast.error && (
+						<p className="mt-1 text-xs opacity-80 break-words">
+							{toast.error.message}
+						</p>
+					)}
+					<div className="mt-1 flex justify-end gap-3">
+						{toast.retry && (
+							<button
+								type="button"
+								className="font-medium hover:underline"
+								onClick={() => {
+									dismiss(toast.id);
+									toast.retry?.();
+								}}
+							>
+								Retry
+							</button>
+						)}
+						<button
+							type="button"
+							className="hover:underline"
+							onClick={() => dismiss(toast.id)}
+						>
+							Dismiss
+						</button>
+					</div>
+				</div>
+			))}
+		</div>
+	);
+}
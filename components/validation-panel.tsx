@@ -0,0 +1,122 @@
+"use client";
+
+import type { Instance } from "@nutrient-sdk/viewer";
+import { useState } from "react";
+import { type DiagnosticInput, toError } from "@/lib/diagnostics";
+import type { Recipient } from "@/lib/recipients";
+import {
+	countErrors,
+	type ValidationIssue,
+	validateDocument,
+} from "@/lib/validation";
+
+interface ValidationPanelProps {
+	instance: Instance | null;
+	recipients: Recipient[];
+	onDiagnostic: (input: DiagnosticInput) => void;
+}
+
+// A report only applies to the document it was made for
+interface Report {
+	instance: Instance;
+	issues: ValidationIssue[];
+}
+
+const SEVERITY_STYLES = {
+	error: "border-red-200 bg-red-50 text-red-800",
+	warning: "border-yellow-200 bg-yellow-50 text-yellow-800",
+};
+
+// Sidebar "Validate" step listing problems to fix before sending
+export default function ValidationPanel({
+	instance,
+	recipients,
+	onDiagnostic,
+}: ValidationPanelProps) {
+	const [report, setReport] = useState<Report | null>(null);
+	const [validating, setValidating] = useState(false);
+
+	const issues = report?.instance === instance ? report.issues : null;
+
+	const validate = async () => {
+		if (!instance) return;
+
+		setValidating(true);
+		try {
+			setReport({
+				instance,
+				issues: await validateDocument(instance, recipients),
+			});
+		} catch (error) {
+			onDiagnostic({
+				level: "error",
+				code: "validation-failed",
+				message: "Could not validate the document",
+				error: toError(error),
+				retry: validate,
+			});
+		} finally {
+			setValidating(false);
+		}
+	};
+
+	const show = (issue: ValidationIssue) => {
+		const { NutrientViewer } = window;
+		if (!instance || !NutrientViewer || issue.pageIndex === null) return;
+
+		if (issue.boundingBox) {
+			instance.jumpToRect(
+				issue.pageIndex,
+				new NutrientViewer.Geometry.Rect(issue.boundingBox),
+			);
+		}
+		if (issue.annotationIds.length > 0) {
+			instance.setSelectedAnnotations(
+				NutrientViewer.Immutable.List(issue.annotationIds),
+			);
+		}
+	};
+
+	if (!instance) return null;
+
+	const errorCount = issues ? countErrors(issues) : 0;
+
+	return (
+		<div className="mb-4 pb-4 border-b border-gray-200 space-y-2 text-sm">
+			<button
+				type="button"
+				className="w-full px-3 py-1 bg-white border border-gray-200 rounded hover:bg-gray-50 disabled:opacity-50"
+				disabled={validating}
+				onClick={validate}
+			>
+				{validating ? "Validating…" : "Validate"}
+			</button>
+
+			{issues && (
+				<>
+					<p className="text-gray-600" aria-live="polite">
+						{issues.length === 0
+							? "No problems found"
+							: `${errorCount} error(s), ${issues.length - errorCount} warning(s)`}
+					</p>
+					<ul className="space-y-1">
+						{issues.map((issue) => (
+							<li key={issue.id}>
+								<button
+									type="button"
+									className={`w-full p-1 text-left border rounded ${SEVERITY_STYLES[issue.severity]} ${issue.pageIndex === null ? "cursor-default" : "hover:underline"}`}
+									onClick={() => show(issue)}
+								>
+									<span className="font-medium">
+										{issue.severity === "error" ? "Error" : "Warning"}:
+									</span>{" "}
+									{issue.message}
+								</button>
+							</li>
+						))}
+					</ul>
+				</>
+			)}
+		</div>
+	);
+}
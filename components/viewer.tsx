@@ -1,48 +1,267 @@
 "use client";
 
-import type { Instance, List, ViewState } from "@nutrient-sdk/viewer";
-import { useCallback, useEffect, useRef, useState } from "react";
+import type { Instance, ViewState } from "@nutrient-sdk/viewer";
+import {
+	type Ref,
+	useCallback,
+	useEffect,
+	useImperativeHandle,
+	useRef,
+	useState,
+} from "react";
+import {
+	type DiagnosticInput,
+	logDiagnostic,
+	toError,
+} from "@/lib/diagnostics";
+import { getDroppedPdf, isFileDrag } from "@/lib/document-files";
+import { type Box, placeBox } from "@/lib/drop-placement";
+import { createDropPreview, type DropPreview } from "@/lib/drop-preview";
+import { buildFieldAnnotations } from "@/lib/field-annotations";
+import {
+	type FieldTypeDefinition,
+	getFieldType,
+	registerFieldType,
+} from "@/lib/field-types";
+import {
+	checkImageFile,
+	createImageAnnotation,
+	getDroppedImage,
+} from "@/lib/image-drop";
+import { nutrientBaseUrl } from "@/lib/nutrient-assets";
+import { asDocument, getPlacedFields } from "@/lib/placed-fields";
+import {
+	anchorBox,
+	type PagePoint,
+	resolvePagePoint,
+	toContentClient,
+} from "@/lib/pointer-placement";
+import type { Recipient } from "@/lib/recipients";
+import {
+	applyTemplate,
+	exportTemplate,
+	type FieldTemplate,
+	type TemplateField,
+	toTemplateField,
+} from "@/lib/templates";
 
 type EventHandler = (event: Event) => void;
 
-// Enhanced version of closestByClass that logs the element structure for debugging
-function closestByClass(
-	el: Element | Node | null,
-	className: string,
-): Element | null {
-	if (!el) return null;
-
-	// Check if element has classList and the target class
-	if (
-		el instanceof Element &&
-		el.classList &&
-		el.classList.contains(className)
-	) {
-		return el as Element;
-	}
-
-	// Also check if the className is in the string (alternative method)
-	if (
-		el instanceof Element &&
-		el.className &&
-		typeof el.className === "string" &&
-		el.className.includes(className)
-	) {
-		return el as Element;
-	}
-
-	// Recursively check parent
-	return el.parentNode ? closestByClass(el.parentNode, className) : null;
+// Resolve a point given in the host document's client space, e.g. from a
+// pointer drag that started in the sidebar
+function resolveHostPoint(
+	instance: Instance,
+	clientX: number,
+	clientY: number,
+): PagePoint | null {
+	const point = toContentClient(instance, clientX, clientY);
+	return resolvePagePoint(instance, point.clientX, point.clientY);
+}
+
+// Look a field type up in the viewer's own list, or in the registry when the
+// host didn't pass one
+function findFieldType(
+	fieldTypes: FieldTypeDefinition[] | undefined,
+	type: string,
+): FieldTypeDefinition | undefined {
+	return fieldTypes
+		? fieldTypes.find((definition) => definition.type === type)
+		: getFieldType(type);
+}
+
+// Names, types and sizes of dropped files, for the debug panel
+function describeFiles(event: DragEvent | React.DragEvent) {
+	return Array.from(event.dataTransfer?.files ?? []).map(
+		({ name, type, size }) => ({ name, type, size }),
+	);
+}
+
+// Loads in progress or being torn down, per container. A new load waits for
+// the previous one so two instances never mount into the same container.
+const containerTeardowns = new WeakMap<HTMLElement, Promise<void>>();
+
+const FIELD_EVENTS = ["annotations.change", "formFields.change"] as const;
+
+// Screen distance within which a dragged field snaps to an alignment guide
+const GUIDE_THRESHOLD_PX = 6;
+
+// Distance in page points an arrow key moves the placement cursor
+const KEYBOARD_STEP = 10;
+
+// Imperative API for placing fields from outside the viewer, e.g. a pointer
+// drag from the sidebar. Coordinates are client coordinates of the host document.
+export interface ViewerHandle {
+	previewFieldAt: (fieldType: string, clientX: number, clientY: number) => void;
+	clearPreview: () => void;
+	// Resolves to false when there is no page under the point or the field
+	// couldn't be created
+	dropFieldAt: (
+		fieldType: string,
+		clientX: number,
+		clientY: number,
+	) => Promise<boolean>;
+	// Create a field at a box in page space, e.g. an accepted suggestion.
+	// Resolves to false when the field couldn't be created.
+	placeField: (
+		fieldType: string,
+		pageIndex: number,
+		boundingBox: Box,
+	) => Promise<boolean>;
+	// Delete a field and its widgets. Resolves to false when there is no field
+	// with that name or it couldn't be deleted.
+	removeField: (formFieldName: string) => Promise<boolean>;
+	// Describe the placed fields as a template, or null while nothing is loaded
+	exportTemplate: (
+		name: string,
+		recipients?: Recipient[],
+	) => Promise<FieldTemplate | null>;
+	getInstance: () => Instance | null;
+}
+
+// "view" to read and fill in the document, "form-creator" to place and edit fields
+export type ViewerMode = "view" | "form-creator";
+
+// A placed field as reported to the host, named so it can be removed again
+export interface ViewerField extends TemplateField {
+	formFieldName: string;
+}
+
+export interface FieldCreatedEvent {
+	definition: FieldTypeDefinition;
+	pageIndex: number;
+	formFieldName: string;
 }
 
 interface ViewerProps {
-	formCreatorMode: boolean;
+	ref?: Ref<ViewerHandle>;
+	// PDF to open, as a URL or the file contents. Nothing is loaded while null.
+	document: string | ArrayBuffer | null;
+	mode?: ViewerMode;
+	// Field types that can be placed. Types missing from the registry are
+	// registered. Defaults to every registered type.
+	fieldTypes?: FieldTypeDefinition[];
+	// Fields to create when a document has loaded
+	initialFields?: FieldTemplate | null;
+	// Called with every placed field whenever fields are added, changed or removed
+	onFieldsChange?: (fields: ViewerField[]) => void;
+	// Called when loading the document, creating a field or adding a dropped
+	// image fails
+	onError?: (error: Error) => void;
+	// Called with everything the viewer does and every problem it runs into,
+	// for the host to show. Warnings and errors go to the console without it.
+	onDiagnostic?: (diagnostic: DiagnosticInput) => void;
+	// Recipient that newly dropped fields are assigned to
+	activeRecipient?: Recipient | null;
+	// Called with the instance once it is loaded, and with null when it is unloaded
+	onInstanceChange?: (instance: Instance | null) => void;
+	// Called when a PDF file is dropped from the desktop onto the viewer
+	onFileDrop?: (file: File) => void;
+	// Field type currently dragged from the palette, used for the drop preview
+	draggingFieldType?: string | null;
+	// Grid size in page points that dropped fields snap to, or null to disable
+	snapGrid?: number | null;
+	// Snap dropped fields to the edges and centers of other widgets on the page
+	smartGuides?: boolean;
+	// Field type armed for click or keyboard placement
+	armedFieldType?: string | null;
+	// Called when the armed field has been placed or placement was cancelled
+	onDisarm?: () => void;
+	// Called after a field has been created by a drop, click, key press or placeField
+	onFieldCreated?: (event: FieldCreatedEvent) => void;
 }
 
-export default function Viewer({ formCreatorMode }: ViewerProps) {
+export default function Viewer({
+	ref,
+	document,
+	mode = "view",
+	fieldTypes,
+	initialFields = null,
+	onFieldsChange,
+	onError,
+	onDiagnostic,
+	activeRecipient = null,
+	onInstanceChange,
+	onFileDrop,
+	draggingFieldType = null,
+	snapGrid = null,
+	smartGuides = true,
+	armedFieldType = null,
+	onDisarm,
+	onFieldCreated,
+}: ViewerProps) {
+	const formCreatorMode = mode === "form-creator";
 	const containerRef = useRef(null);
-	const [_isViewerReady, setIsViewerReady] = useState(false);
+	const [isViewerReady, setIsViewerReady] = useState(false);
 	const viewerInstanceRef = useRef<Instance | null>(null);
+	// Handlers and the load effect outlive renders, so they read props through refs
+	const activeRecipientRef = useRef<Recipient | null>(activeRecipient);
+	const formCreatorModeRef = useRef(formCreatorMode);
+	const onInstanceChangeRef = useRef(onInstanceChange);
+	const onFileDropRef = useRef(onFileDrop);
+	const draggingFieldTypeRef = useRef(draggingFieldType);
+	const placementOptionsRef = useRef({ snapGrid, smartGuides });
+	const onDisarmRef = useRef(onDisarm);
+	const onFieldCreatedRef = useRef(onFieldCreated);
+	const fieldTypesRef = useRef(fieldTypes);
+	const initialFieldsRef = useRef(initialFields);
+	const onFieldsChangeRef = useRef(onFieldsChange);
+	const onErrorRef = useRef(onError);
+	const onDiagnosticRef = useRef(onDiagnostic);
+	// Bumped to load the same document again after a failed load
+	const [loadAttempt, setLoadAttempt] = useState(0);
+
+	useEffect(() => {
+		activeRecipientRef.current = activeRecipient;
+		formCreatorModeRef.current = formCreatorMode;
+		onInstanceChangeRef.current = onInstanceChange;
+		onFileDropRef.current = onFileDrop;
+		draggingFieldTypeRef.current = draggingFieldType;
+		placementOptionsRef.current = { snapGrid, smartGuides };
+		onDisarmRef.current = onDisarm;
+		onFieldCreatedRef.current = onFieldCreated;
+		fieldTypesRef.current = fieldTypes;
+		initialFieldsRef.current = initialFields;
+		onFieldsChangeRef.current = onFieldsChange;
+		onErrorRef.current = onError;
+		onDiagnosticRef.current = onDiagnostic;
+	}, [
+		activeRecipient,
+		formCreatorMode,
+		onInstanceChange,
+		onFileDrop,
+		draggingFieldType,
+		snapGrid,
+		smartGuides,
+		onDisarm,
+		onFieldCreated,
+		fieldTypes,
+		initialFields,
+		onFieldsChange,
+		onError,
+		onDiagnostic,
+	]);
+
+	const report = useCallback((diagnostic: DiagnosticInput) => {
+		if (onDiagnosticRef.current) {
+			onDiagnosticRef.current(diagnostic);
+		} else {
+			logDiagnostic(diagnostic);
+		}
+		if (diagnostic.level === "error" && diagnostic.error) {
+			onErrorRef.current?.(diagnostic.error);
+		}
+	}, []);
+
+	useEffect(() => {
+		for (const definition of fieldTypes ?? []) {
+			if (!getFieldType(definition.type)) registerFieldType(definition);
+		}
+	}, [fieldTypes]);
+
+	const dropPreviewRef = useRef<DropPreview | null>(null);
+	// Widget boxes per page for the alignment guides, loaded once per drag
+	const neighbourBoxesRef = useRef(new Map<number, Box[]>());
+
 	const eventHandlersRef = useRef<{
 		dragover: EventHandler;
 		drop: EventHandler;
@@ -56,294 +275,372 @@ export default function Viewer({ formCreatorMode }: ViewerProps) {
 			instance.contentDocument.removeEventListener("drop", drop);
 			eventHandlersRef.current = null;
 		}
+		dropPreviewRef.current?.destroy();
+		dropPreviewRef.current = null;
 	}, []);
 
+	// Widget boxes on a page for the alignment guides. The first call starts
+	// loading them and returns nothing until they are in.
+	const neighbourBoxes = useCallback(
+		(instance: Instance, pageIndex: number): Box[] => {
+			const cache = neighbourBoxesRef.current;
+			if (!cache.has(pageIndex)) {
+				cache.set(pageIndex, []);
+				instance.getAnnotations(pageIndex).then((annotations) => {
+					cache.set(
+						pageIndex,
+						annotations
+							.filter((annotation) => "formFieldName" in annotation)
+							.map(({ boundingBox: { left, top, width, height } }) => ({
+								left,
+								top,
+								width,
+								height,
+							}))
+							.toArray(),
+					);
+				});
+			}
+			return cache.get(pageIndex) ?? [];
+		},
+		[],
+	);
+
+	// Snap a page-space box to the grid and guides and keep it on the page
+	const snapPageBox = useCallback(
+		(instance: Instance, box: Box, pageIndex: number) => {
+			const pageInfo = instance.pageInfoForIndex(pageIndex);
+			const { snapGrid, smartGuides } = placementOptionsRef.current;
+
+			return placeBox(
+				box,
+				pageInfo ?? { width: Infinity, height: Infinity },
+				smartGuides ? neighbourBoxes(instance, pageIndex) : [],
+				{
+					snapGrid,
+					smartGuides,
+					guideThreshold: GUIDE_THRESHOLD_PX / instance.currentZoomLevel,
+				},
+			);
+		},
+		[neighbourBoxes],
+	);
+
+	// Where a field dropped or clicked at a point lands, anchored to the point
+	const computePlacement = useCallback(
+		(instance: Instance, point: PagePoint, definition: FieldTypeDefinition) =>
+			snapPageBox(instance, anchorBox(point, definition), point.pageIndex),
+		[snapPageBox],
+	);
+
+	// Create a field of the given type. Drops, clicks and keyboard placement all
+	// end up here.
+	const createField = useCallback(
+		async (
+			instance: Instance,
+			definition: FieldTypeDefinition,
+			pageIndex: number,
+			boundingBox: Box,
+		): Promise<boolean> => {
+			const { NutrientViewer } = window;
+			if (!NutrientViewer) return false;
+
+			const attempt = async (): Promise<boolean> => {
+				try {
+					const { widgets, formField } = buildFieldAnnotations(
+						NutrientViewer,
+						definition,
+						{
+							pageIndex,
+							boundingBox: new NutrientViewer.Geometry.Rect(boundingBox),
+							recipient: activeRecipientRef.current,
+						},
+					);
+
+					// Create the widgets and their form field in one go
+					await instance.create([...widgets, formField]);
+					report({
+						level: "info",
+						code: "field-created",
+						message: `${definition.label} placed on page ${pageIndex + 1}`,
+						data: { fieldType: definition.type, pageIndex, boundingBox },
+					});
+					onFieldCreatedRef.current?.({
+						definition,
+						pageIndex,
+						formFieldName: formField.name,
+					});
+					return true;
+				} catch (error) {
+					report({
+						level: "error",
+						code: "field-create-failed",
+						message: `Could not place the ${definition.label} field`,
+						error: toError(error),
+						data: { fieldType: definition.type, pageIndex, boundingBox },
+						retry: () => {
+							attempt();
+						},
+					});
+					return false;
+				}
+			};
+			return attempt();
+		},
+		[report],
+	);
+
+	useImperativeHandle(
+		ref,
+		() => ({
+			previewFieldAt: (fieldType, clientX, clientY) => {
+				const instance = viewerInstanceRef.current;
+				const definition = findFieldType(fieldTypesRef.current, fieldType);
+				const point = instance && resolveHostPoint(instance, clientX, clientY);
+				dropPreviewRef.current?.update(
+					instance && point && definition
+						? {
+								pageIndex: point.pageIndex,
+								...computePlacement(instance, point, definition),
+							}
+						: null,
+				);
+			},
+			clearPreview: () => {
+				dropPreviewRef.current?.update(null);
+				neighbourBoxesRef.current.clear();
+			},
+			dropFieldAt: async (fieldType, clientX, clientY) => {
+				dropPreviewRef.current?.update(null);
+				neighbourBoxesRef.current.clear();
+
+				const instance = viewerInstanceRef.current;
+				const definition = findFieldType(fieldTypesRef.current, fieldType);
+				if (!instance || !definition || !formCreatorModeRef.current) {
+					return false;
+				}
+
+				const point = resolveHostPoint(instance, clientX, clientY);
+				if (!point) return false;
+
+				const placement = computePlacement(instance, point, definition);
+				return createField(
+					instance,
+					definition,
+					point.pageIndex,
+					placement.boundingBox,
+				);
+			},
+			placeField: async (fieldType, pageIndex, boundingBox) => {
+				const instance = viewerInstanceRef.current;
+				const definition = findFieldType(fieldTypesRef.current, fieldType);
+				if (!instance || !definition) return false;
+
+				return createField(instance, definition, pageIndex, boundingBox);
+			},
+			removeField: async (formFieldName) => {
+				const instance = viewerInstanceRef.current;
+				if (!instance) return false;
+
+				try {
+					const placedFields = await getPlacedFields(instance);
+					const field = placedFields.find(
+						({ formField }) => formField.name === formFieldName,
+					);
+					if (!field) return false;
+
+					await instance.delete([...field.widgets, field.formField]);
+					return true;
+				} catch (error) {
+					report({
+						level: "error",
+						code: "field-remove-failed",
+						message: "Could not remove the field",
+						error: toError(error),
+						data: { formFieldName },
+					});
+					return false;
+				}
+			},
+			exportTemplate: async (name, recipients = []) => {
+				const instance = viewerInstanceRef.current;
+				return instance ? exportTemplate(instance, name, recipients) : null;
+			},
+			getInstance: () => viewerInstanceRef.current,
+		}),
+		[computePlacement, createField, report],
+	);
+
 	// Helper function to set up drag and drop handlers
 	const setupDragAndDrop = useCallback(
 		(instance: Instance, enabled: boolean) => {
 			if (!window.NutrientViewer) return;
-			const { NutrientViewer } = window;
 			let _isDragAndDropSupported = false;
 			let label = "";
 
+			if (instance?.contentDocument) {
+				dropPreviewRef.current = createDropPreview(instance);
+			}
+
 			// Dragover handler
 			const dragoverHandler = (event: Event): void => {
+				const dragEvent = event as DragEvent;
+
+				// PDFs and images from the desktop can be dropped in any mode
+				if (isFileDrag(dragEvent)) {
+					event.preventDefault();
+					return;
+				}
+
 				// Only allow drag over when Form Creator mode is enabled
 				if (!enabled) {
 					return;
 				}
 
-				const dragEvent = event as DragEvent;
 				_isDragAndDropSupported = true;
 
-				// Try to find the page element using various methods
-				let pageElement = null;
-
-				// Method 1: Check if target or parent has the expected class
-				pageElement = closestByClass(
-					dragEvent.target as Element,
-					"PSPDFKit-Page",
+				const point = resolvePagePoint(
+					instance,
+					dragEvent.clientX,
+					dragEvent.clientY,
 				);
 
-				// Method 2: If that doesn't work, check for alternative class names
-				if (!pageElement) {
-					pageElement = closestByClass(
-						dragEvent.target as Element,
-						"pspdfkit-page",
-					);
-				}
-
-				// Method 3: As a fallback, look for any element with 'page' in the class name
-				if (!pageElement) {
-					const target = dragEvent.target as Element;
-					if (target.classList) {
-						const allClasses = Array.from(target.classList);
-						const pageClasses = allClasses.filter((cls) =>
-							cls.toLowerCase().includes("page"),
-						);
-						if (pageClasses.length > 0) {
-							pageElement = target;
-						}
-					}
-				}
+				// Show where the dragged field would land
+				const definition = findFieldType(
+					fieldTypesRef.current,
+					draggingFieldTypeRef.current ?? "",
+				);
+				dropPreviewRef.current?.update(
+					point && definition
+						? {
+								pageIndex: point.pageIndex,
+								...computePlacement(instance, point, definition),
+							}
+						: null,
+				);
 
 				// Allow drop operation
-				if (pageElement) {
+				if (point) {
 					event.preventDefault();
 				}
 			};
 
 			// Drop handler
 			const dropHandler = async (event: Event) => {
-				// Only allow drop when Form Creator mode is enabled
-				if (!enabled) {
-					return;
-				}
-
 				const dragEvent = event as DragEvent;
-				// Always prevent default and stop propagation
-				event.preventDefault();
-				event.stopPropagation();
-
-				console.log("Drop event occurred");
-				label = dragEvent.dataTransfer?.getData("text") || "";
-				console.log("Annotation type:", label);
-
-				// Try multiple methods to identify the page element
-				let pageElement = closestByClass(
-					dragEvent.target as Element,
-					"PSPDFKit-Page",
-				);
-				if (!pageElement) {
-					pageElement = closestByClass(
-						dragEvent.target as Element,
-						"pspdfkit-page",
-					);
-				}
 
-				// Fallback method - find any element with page in the class name
-				if (!pageElement) {
-					const target = dragEvent.target as Element;
-					if (target.classList) {
-						const allClasses = Array.from(target.classList);
-						const pageClasses = allClasses.filter((cls) =>
-							cls.toLowerCase().includes("page"),
-						);
-						if (pageClasses.length > 0) {
-							pageElement = target;
-						}
+				// A PDF from the desktop opens a new document instead of placing a
+				// field, and an image is added to the page it was dropped on
+				if (isFileDrag(dragEvent)) {
+					event.preventDefault();
+					event.stopPropagation();
+					const file = getDroppedPdf(dragEvent);
+					if (file) {
+						onFileDropRef.current?.(file);
+						return false;
 					}
-				}
-
-				// If we still can't find a page element, try to get the page index via coordinate conversion
-				let pageIndex = 0;
-				if (pageElement) {
-					// Extract page index from the element's dataset or other attributes
-					pageIndex = parseInt(
-						(pageElement as HTMLElement).dataset.pageIndex || "0",
-						10,
-					);
-					console.log("Page element found, page index:", pageIndex);
-				} else {
-					// Fallback to page 0 if we can't determine the page
-					console.warn("No page element found, defaulting to page 0");
-				}
 
-				try {
-					// Different configurations based on annotation type
-					let boundingBoxDimensions = { height: 55, width: 225 };
-
-					// Common calculations for positioning
-					// Use fixed offset so all field sizes align consistently
-					const horizontalOffset = 100; // Fixed pixel offset from cursor
-					const clientRect = new NutrientViewer.Geometry.Rect({
-						left: dragEvent.clientX - horizontalOffset,
-						top: dragEvent.clientY - boundingBoxDimensions.height / 2,
-						...boundingBoxDimensions,
-					});
+					const image = getDroppedImage(dragEvent);
+					const problem = image
+						? checkImageFile(image)
+						: "Only PDF documents and PNG, JPEG or SVG images can be dropped";
+					if (!image || problem) {
+						report({
+							level: "warning",
+							code: "file-drop-rejected",
+							message: problem ?? "",
+							data: { files: describeFiles(dragEvent) },
+						});
+						return false;
+					}
 
-					const pageRect = instance.transformContentClientToPageSpace(
-						clientRect,
-						pageIndex,
+					const point = resolvePagePoint(
+						instance,
+						dragEvent.clientX,
+						dragEvent.clientY,
 					);
+					if (!point) {
+						report({
+							level: "warning",
+							code: "drop-outside-page",
+							message: `Drop ${image.name} onto a page to add it`,
+							data: { clientX: dragEvent.clientX, clientY: dragEvent.clientY },
+						});
+						return false;
+					}
 
-					// Generate a unique ID that will be used for both the widget and form field
-					const uniqueId = NutrientViewer.generateInstantId();
-					const formFieldName = `${label.toLowerCase()}-${uniqueId}`;
-
-					// Create different annotation types based on the label
-					switch (label) {
-						case "Signature": {
-							// Create widget annotation
-							const widget = new NutrientViewer.Annotations.WidgetAnnotation({
-								boundingBox: pageRect,
-								formFieldName: formFieldName,
-								id: uniqueId,
-								pageIndex,
-								name: "Signature",
-							});
-
-							// Create form field directly referencing the widget
-							const formField =
-								new NutrientViewer.FormFields.SignatureFormField({
-									annotationIds: new (
-										NutrientViewer.Immutable.List as unknown as new (
-											items: string[],
-										) => List<string>
-									)([uniqueId]),
-									name: formFieldName, // Make sure this matches the formFieldName in the widget
-								});
-
-							// Create both objects in one go
-							await instance.create([widget, formField]);
-							console.log("Successfully created Signature annotation");
-							break;
-						}
-
-						case "DateSigned": {
-							// Set smaller size for date field
-							boundingBoxDimensions = { height: 55, width: 225 };
-
-							// Recalculate with new dimensions using slightly adjusted offset
-							const dateClientRect = new NutrientViewer.Geometry.Rect({
-								left: dragEvent.clientX - horizontalOffset - 10,
-								top: dragEvent.clientY - boundingBoxDimensions.height / 2,
-								...boundingBoxDimensions,
+					const addImage = async () => {
+						try {
+							await createImageAnnotation(instance, image, point);
+							report({
+								level: "info",
+								code: "image-added",
+								message: `${image.name} added to page ${point.pageIndex + 1}`,
+								data: { ...point, type: image.type, size: image.size },
 							});
-							const datePageRect = instance.transformContentClientToPageSpace(
-								dateClientRect,
-								pageIndex,
-							);
-
-							// Generate a unique ID for date field
-							const dateUniqueId = NutrientViewer.generateInstantId();
-							const dateFormFieldName = `date-${dateUniqueId}`;
-
-							const widget = new NutrientViewer.Annotations.WidgetAnnotation({
-								boundingBox: datePageRect,
-								formFieldName: dateFormFieldName,
-								id: dateUniqueId,
-								pageIndex,
-								name: "Date Signed",
+						} catch (error) {
+							report({
+								level: "error",
+								code: "image-add-failed",
+								message: `Could not add ${image.name} to the page`,
+								error: toError(error),
+								data: { ...point, type: image.type, size: image.size },
+								retry: addImage,
 							});
-
-							const formField = new NutrientViewer.FormFields.TextFormField({
-								annotationIds: new (
-									NutrientViewer.Immutable.List as unknown as new (
-										items: string[],
-									) => List<string>
-								)([dateUniqueId]),
-								name: dateFormFieldName,
-								// You can set a default date value if needed
-								value: "TBD: Date Signed",
-							});
-
-							// Create both objects in one go
-							await instance.create([widget, formField]);
-							console.log("Successfully created Date annotation");
-							break;
 						}
+					};
+					await addImage();
+					return false;
+				}
 
-						case "Initials": {
-							// Smaller size for initials
-							boundingBoxDimensions = { height: 50, width: 50 };
-
-							// Recalculate with new dimensions using slightly adjusted offset
-							const initialsClientRect = new NutrientViewer.Geometry.Rect({
-								left: dragEvent.clientX - horizontalOffset - 15,
-								top: dragEvent.clientY - boundingBoxDimensions.height / 2,
-								...boundingBoxDimensions,
-							});
-							const initialsPageRect =
-								instance.transformContentClientToPageSpace(
-									initialsClientRect,
-									pageIndex,
-								);
-
-							// Generate a unique ID for initials field
-							const initialsUniqueId = NutrientViewer.generateInstantId();
-							const initialsFormFieldName = `initials-${initialsUniqueId}`;
-
-							const widget = new NutrientViewer.Annotations.WidgetAnnotation({
-								boundingBox: initialsPageRect,
-								formFieldName: initialsFormFieldName,
-								id: initialsUniqueId,
-								pageIndex,
-								name: "Initials",
-							});
-
-							const formField =
-								new NutrientViewer.FormFields.SignatureFormField({
-									annotationIds: new (
-										NutrientViewer.Immutable.List as unknown as new (
-											items: string[],
-										) => List<string>
-									)([initialsUniqueId]),
-									name: initialsFormFieldName,
-								});
-
-							// Create both objects in one go
-							await instance.create([widget, formField]);
-							console.log("Successfully created Initials annotation");
-							break;
-						}
+				// Only allow drop when Form Creator mode is enabled
+				if (!enabled) {
+					return;
+				}
 
-						default: {
-							// Handle unknown annotation types
-							console.log("Unknown annotation type:", label);
+				// Always prevent default and stop propagation
+				event.preventDefault();
+				event.stopPropagation();
 
-							// Generate a default ID
-							const defaultUniqueId = NutrientViewer.generateInstantId();
-							const defaultFormFieldName = `annotation-${defaultUniqueId}`;
+				label = dragEvent.dataTransfer?.getData("text") || "";
+				dropPreviewRef.current?.update(null);
 
-							const widget = new NutrientViewer.Annotations.WidgetAnnotation({
-								boundingBox: pageRect,
-								formFieldName: defaultFormFieldName,
-								id: defaultUniqueId,
-								pageIndex,
-								name: label || "Annotation",
-							});
+				const definition = findFieldType(fieldTypesRef.current, label);
+				if (!definition) {
+					report({
+						level: "warning",
+						code: "unknown-field-type",
+						message: label
+							? `There is no "${label}" field type to place`
+							: "Only fields from the palette can be dropped here",
+						data: { label, types: dragEvent.dataTransfer?.types },
+					});
+					return false;
+				}
 
-							const formField =
-								new NutrientViewer.FormFields.SignatureFormField({
-									annotationIds: new (
-										NutrientViewer.Immutable.List as unknown as new (
-											items: string[],
-										) => List<string>
-									)([defaultUniqueId]),
-									name: defaultFormFieldName,
-								});
-
-							// Create both objects in one go
-							await instance.create([widget, formField]);
-							console.log("Successfully created default annotation");
-							break;
-						}
-					}
-				} catch (error) {
-					console.error("Error creating annotation:", error);
+				const point = resolvePagePoint(
+					instance,
+					dragEvent.clientX,
+					dragEvent.clientY,
+				);
+				if (!point) {
+					report({
+						level: "warning",
+						code: "drop-outside-page",
+						message: `Drop the ${definition.label} field onto a page to place it`,
+						data: { clientX: dragEvent.clientX, clientY: dragEvent.clientY },
+					});
+					return false;
 				}
 
+				const placement = computePlacement(instance, point, definition);
+				await createField(
+					instance,
+					definition,
+					point.pageIndex,
+					placement.boundingBox,
+				);
+
 				return false;
 			};
 
@@ -359,9 +656,142 @@ export default function Viewer({ formCreatorMode }: ViewerProps) {
 				};
 			}
 		},
-		[],
+		[computePlacement, createField, report],
 	);
 
+	// Clear the drop preview once the palette drag ends
+	useEffect(() => {
+		if (!draggingFieldType) {
+			dropPreviewRef.current?.update(null);
+			neighbourBoxesRef.current.clear();
+		}
+	}, [draggingFieldType]);
+
+	// Click-to-place and keyboard placement for the armed field type
+	useEffect(() => {
+		const instance = viewerInstanceRef.current;
+		const definition = armedFieldType
+			? findFieldType(fieldTypesRef.current, armedFieldType)
+			: null;
+		if (!isViewerReady || !instance || !definition) return;
+
+		// The keyboard cursor is the field's box, starting centered on the current page
+		const startPage = instance.viewState.currentPageIndex;
+		const pageInfo = instance.pageInfoForIndex(startPage);
+		const { width, height } = definition.size;
+		const cursor = {
+			pageIndex: startPage,
+			box: {
+				left: ((pageInfo?.width ?? width) - width) / 2,
+				top: ((pageInfo?.height ?? height) - height) / 2,
+				width,
+				height,
+			},
+		};
+
+		const showCursor = () => {
+			const placement = snapPageBox(instance, cursor.box, cursor.pageIndex);
+			cursor.box = placement.boundingBox;
+			dropPreviewRef.current?.update({
+				pageIndex: cursor.pageIndex,
+				...placement,
+			});
+		};
+		showCursor();
+
+		const place = (pageIndex: number, boundingBox: Box) => {
+			dropPreviewRef.current?.update(null);
+			onDisarmRef.current?.();
+			createField(instance, definition, pageIndex, boundingBox);
+		};
+
+		const handleClick = (event: Event) => {
+			const mouseEvent = event as MouseEvent;
+			const point = resolvePagePoint(
+				instance,
+				mouseEvent.clientX,
+				mouseEvent.clientY,
+			);
+			if (!point) return;
+
+			// Keep the SDK from treating the click as a selection
+			event.preventDefault();
+			event.stopPropagation();
+
+			const placement = computePlacement(instance, point, definition);
+			place(point.pageIndex, placement.boundingBox);
+		};
+
+		const handleKeyDown = (event: Event) => {
+			const keyboardEvent = event as KeyboardEvent;
+			const target = keyboardEvent.target as HTMLElement | null;
+			// Leave text entry alone, e.g. renaming a recipient while armed
+			if (
+				target?.isContentEditable ||
+				target?.tagName === "INPUT" ||
+				target?.tagName === "TEXTAREA" ||
+				target?.tagName === "SELECT"
+			) {
+				return;
+			}
+
+			const step = keyboardEvent.shiftKey
+				? 1
+				: (placementOptionsRef.current.snapGrid ?? KEYBOARD_STEP);
+			switch (keyboardEvent.key) {
+				case "ArrowLeft":
+					cursor.box.left -= step;
+					break;
+				case "ArrowRight":
+					cursor.box.left += step;
+					break;
+				case "ArrowUp":
+					cursor.box.top -= step;
+					break;
+				case "ArrowDown":
+					cursor.box.top += step;
+					break;
+				case "Enter":
+					keyboardEvent.preventDefault();
+					place(cursor.pageIndex, cursor.box);
+					return;
+				case "Escape":
+					keyboardEvent.preventDefault();
+					onDisarmRef.current?.();
+					return;
+				default:
+					return;
+			}
+			keyboardEvent.preventDefault();
+			showCursor();
+		};
+
+		// Key presses inside an iframe-based viewer don't reach the host document
+		const contentDocument = instance.contentDocument;
+		const keyTargets = new Set<Document | ShadowRoot>([window.document]);
+		const frameDocument = asDocument(contentDocument);
+		if (frameDocument) keyTargets.add(frameDocument);
+
+		contentDocument.addEventListener("click", handleClick, true);
+		for (const target of keyTargets) {
+			target.addEventListener("keydown", handleKeyDown);
+		}
+
+		return () => {
+			contentDocument.removeEventListener("click", handleClick, true);
+			for (const target of keyTargets) {
+				target.removeEventListener("keydown", handleKeyDown);
+			}
+			dropPreviewRef.current?.update(null);
+		};
+	}, [
+		armedFieldType,
+		isViewerReady,
+		computePlacement,
+		createField,
+		snapPageBox,
+	]);
+
 	// Update interaction mode when formCreatorMode changes
 	useEffect(() => {
 		const instance = viewerInstanceRef.current;
@@ -370,9 +800,11 @@ export default function Viewer({ formCreatorMode }: ViewerProps) {
 				? window.NutrientViewer.InteractionMode.FORM_CREATOR
 				: null;
 
-			console.log(
-				`Setting interaction mode to: ${formCreatorMode ? "FORM_CREATOR" : "null"}`,
-			);
+			report({
+				level: "info",
+				code: "mode-changed",
+				message: `Interaction mode set to ${formCreatorMode ? "FORM_CREATOR" : "none"}`,
+			});
 
 			instance.setViewState((viewState: ViewState) =>
 				interactionMode
@@ -380,60 +812,178 @@ export default function Viewer({ formCreatorMode }: ViewerProps) {
 					: viewState.set("interactionMode", null),
 			);
 		}
-	}, [formCreatorMode]);
+	}, [formCreatorMode, report]);
 
-	// Initialize the viewer
+	// Load the document, and reload whenever it changes
 	useEffect(() => {
 		const container = containerRef.current;
+		if (!container || !document || !window.NutrientViewer) return;
+
+		const { NutrientViewer } = window;
 		let viewerInstance: Instance | null = null;
+		let cancelled = false;
 
-		// Only initialize if not already done
-		if (container && !viewerInstanceRef.current && window.NutrientViewer) {
-			const { NutrientViewer } = window;
+		// Strict mode cleans up before the previous teardown has run, so the
+		// load waits for it, and is skipped when this effect is already gone
+		const previous = containerTeardowns.get(container) ?? Promise.resolve();
+		const loading = previous.then(() =>
+			cancelled
+				? null
+				: NutrientViewer.load({
+						container,
+						// The SDK may take ownership of the buffer, so every load gets its own copy
+						document:
+							typeof document === "string" ? document : document.slice(0),
+						baseUrl: nutrientBaseUrl(),
+					}),
+		);
+		containerTeardowns.set(
+			container,
+			loading.then(
+				() => {},
+				() => {},
+			),
+		);
 
-			NutrientViewer.load({
-				container,
-				document: "https://www.nutrient.io/downloads/pspdfkit-web-demo.pdf",
-				baseUrl: "https://cdn.cloud.pspdfkit.com/pspdfkit-web@1.2.0/",
-			})
-				.then((instance: Instance) => {
-					viewerInstance = instance;
-					viewerInstanceRef.current = instance;
-					setIsViewerReady(true);
-					console.log("Viewer is ready");
-
-					// Set initial interaction mode based on formCreatorMode prop
-					const interactionMode = formCreatorMode
-						? NutrientViewer.InteractionMode.FORM_CREATOR
-						: null;
-
-					instance.setViewState((viewState: ViewState) =>
-						interactionMode
-							? viewState.set("interactionMode", interactionMode)
-							: viewState.set("interactionMode", null),
-					);
+		loading
+			.then(async (instance: Instance | null) => {
+				// The document changed or the component unmounted while loading
+				if (!instance || cancelled) return;
 
-					// Set up drag and drop handlers
-					setupDragAndDrop(instance, formCreatorMode);
-				})
-				.catch((error: Error) => {
-					console.error("Error loading viewer:", error);
+				// The document is open even when its initial fields can't be placed
+				const initialFields = initialFieldsRef.current;
+				if (initialFields) {
+					const applyInitialFields = () =>
+						applyTemplate(
+							instance,
+							initialFields,
+							initialFields.recipients,
+						).catch((error) => {
+							report({
+								level: "error",
+								code: "initial-fields-failed",
+								message: "The initial fields could not be placed",
+								error: toError(error),
+								data: { fieldCount: initialFields.fields.length },
+								retry: () => {
+									applyInitialFields();
+								},
+							});
+						});
+					await applyInitialFields();
+					if (cancelled) return;
+				}
+
+				viewerInstance = instance;
+				viewerInstanceRef.current = instance;
+				setIsViewerReady(true);
+				onInstanceChangeRef.current?.(instance);
+				report({
+					level: "info",
+					code: "viewer-loaded",
+					message: `Document loaded with ${instance.totalPageCount} page(s)`,
+					data: { attempt: loadAttempt },
 				});
-		}
+
+				// Set initial interaction mode based on the mode prop
+				const interactionMode = formCreatorModeRef.current
+					? NutrientViewer.InteractionMode.FORM_CREATOR
+					: null;
+
+				instance.setViewState((viewState: ViewState) =>
+					interactionMode
+						? viewState.set("interactionMode", interactionMode)
+						: viewState.set("interactionMode", null),
+				);
+
+				// Set up drag and drop handlers
+				setupDragAndDrop(instance, formCreatorModeRef.current);
+			})
+			.catch((error: Error) => {
+				if (!cancelled) {
+					report({
+						level: "error",
+						code: "viewer-load-failed",
+						message: "The document could not be opened",
+						error: toError(error),
+						data: { attempt: loadAttempt },
+						retry: () => setLoadAttempt((attempt) => attempt + 1),
+					});
+				}
+			});
 
 		return () => {
+			cancelled = true;
 			if (viewerInstance) {
-				console.log("Unloading viewer");
+				report({
+					level: "info",
+					code: "viewer-unloaded",
+					message: "Document closed",
+				});
 				cleanupDragAndDrop(viewerInstance);
-				window.NutrientViewer?.unload(container);
 				viewerInstanceRef.current = null;
+				setIsViewerReady(false);
+				onInstanceChangeRef.current?.(null);
 			}
+			// Also aborts a load that is still in progress. A load that finishes
+			// anyway is unloaded once it has, before the next one starts.
+			NutrientViewer.unload(container);
+			containerTeardowns.set(
+				container,
+				loading.then(
+					(instance) => {
+						if (instance) NutrientViewer.unload(container);
+					},
+					() => {},
+				),
+			);
 		};
-	}, [
-		cleanupDragAndDrop,
-		formCreatorMode, // Set up drag and drop handlers
-		setupDragAndDrop,
-	]); // Empty dependency array as this should only run once on mount
+	}, [document, loadAttempt, cleanupDragAndDrop, setupDragAndDrop, report]);
+
+	// Report the placed fields to the host whenever they change
+	useEffect(() => {
+		const instance = viewerInstanceRef.current;
+		if (!isViewerReady || !instance) return;
+
+		// Only the latest read is reported, in case reads finish out of order
+		let latest = 0;
+		const reportFields = () => {
+			if (!onFieldsChangeRef.current) return;
+
+			const request = ++latest;
+			getPlacedFields(instance)
+				.then((fields) => {
+					if (request === latest) {
+						onFieldsChangeRef.current?.(
+							fields.map((field) => ({
+								...toTemplateField(field),
+								formFieldName: field.formField.name,
+							})),
+						);
+					}
+				})
+				.catch((error) => {
+					report({
+						level: "error",
+						code: "fields-read-failed",
+						message: "Could not read the placed fields",
+						error: toError(error),
+						retry: reportFields,
+					});
+				});
+		};
+		reportFields();
+
+		for (const event of FIELD_EVENTS) {
+			instance.addEventListener(event, reportFields);
+		}
+		return () => {
+			latest = -1;
+			for (const event of FIELD_EVENTS) {
+				instance.removeEventListener(event, reportFields);
+			}
+		};
+	}, [isViewerReady, report]);
 
 	// Setup drag and drop handlers whenever formCreatorMode changes
 	useEffect(() => {
@@ -451,6 +1001,44 @@ export default function Viewer({ formCreatorMode }: ViewerProps) {
 		setupDragAndDrop,
 	]);
 
-	// You must set the container height and width
-	return <div ref={containerRef} style={{ height: "100vh", width: "100%" }} />;
+	// Before a document is open the container itself accepts dropped PDFs
+	const handleContainerDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+		if (isFileDrag(event)) event.preventDefault();
+	};
+
+	const handleContainerDrop = (event: React.DragEvent<HTMLDivElement>) => {
+		if (!isFileDrag(event)) return;
+		event.preventDefault();
+		const file = getDroppedPdf(event);
+		if (file) {
+			onFileDrop?.(file);
+		} else {
+			report({
+				level: "warning",
+				code: "file-drop-rejected",
+				message: getDroppedImage(event)
+					? "Open a PDF before adding images to it"
+					: "Only PDF documents can be opened",
+				data: { files: describeFiles(event) },
+			});
+		}
+	};
+
+	return (
+		<div
+			role="presentation"
+			className="relative"
+			style={{ height: "100vh", width: "100%" }}
+			onDragOver={handleContainerDragOver}
+			onDrop={handleContainerDrop}
+		>
+			{/* You must set the container height and width */}
+			<div ref={containerRef} style={{ height: "100%", width: "100%" }} />
+			{!document && (
+				<div className="absolute inset-0 flex items-center justify-center text-gray-500 pointer-events-none">
+					Open a PDF or drop one here
+				</div>
+			)}
+		</div>
+	);
 }
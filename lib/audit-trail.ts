@@ -0,0 +1,200 @@
+import type {
+	AnnotationsUnion,
+	Instance,
+	List,
+	WidgetAnnotation,
+} from "@nutrient-sdk/viewer";
+import { remoteChangeAuthor } from "@/lib/collaboration";
+import { isSignatureField } from "@/lib/date-signed";
+import { toError } from "@/lib/diagnostics";
+import {
+	getPlacedFields,
+	type PlacedField,
+	watchPlacedFields,
+} from "@/lib/placed-fields";
+
+export type AuditAction =
+	| "field-created"
+	| "field-changed"
+	| "field-deleted"
+	| "mode-changed"
+	| "signature-applied"
+	| "signature-removed";
+
+export interface AuditEvent {
+	// ISO 8601
+	timestamp: string;
+	action: AuditAction;
+	// Who was working on the document: the preparer or the signing recipient
+	actor: string;
+	// Form field name, or null for events about the whole document
+	fieldId: string | null;
+	detail: string;
+}
+
+export interface AuditTrail {
+	record: (action: AuditAction, fieldId: string | null, detail: string) => void;
+	destroy: () => void;
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+	"field-created": "Field created",
+	"field-changed": "Field changed",
+	"field-deleted": "Field deleted",
+	"mode-changed": "Mode changed",
+	"signature-applied": "Signature applied",
+	"signature-removed": "Signature removed",
+};
+
+function isSignatureAnnotation(annotation: AnnotationsUnion): boolean {
+	return "isSignature" in annotation && annotation.isSignature === true;
+}
+
+function pageLabel(field: PlacedField): string {
+	return `page ${field.pageIndex + 1}`;
+}
+
+// What changed between two versions of a field, for the log
+function describeChange(before: PlacedField, after: PlacedField): string {
+	const changes: string[] = [];
+	if (before.formField.name !== after.formField.name) {
+		changes.push(`renamed from ${before.formField.name}`);
+	}
+	if (before.recipientId !== after.recipientId) {
+		changes.push(`assigned to ${after.recipientId ?? "nobody"}`);
+	}
+	if (
+		before.widgets.length !== after.widgets.length ||
+		before.widgets.some(
+			(widget, index) =>
+				!widget.boundingBox.equals(after.widgets[index]?.boundingBox),
+		)
+	) {
+		changes.push(`moved or resized on ${pageLabel(after)}`);
+	}
+	if (!before.formField.equals(after.formField) && changes.length === 0) {
+		changes.push("properties edited");
+	}
+	return changes.join(", ") || "widget updated";
+}
+
+// Logs who placed, changed, deleted and signed each field, and when. Like the
+// undo history it logs each burst of changes to the placed fields, one event
+// per field. Signatures are logged as they are added.
+export function createAuditTrail(
+	instance: Instance,
+	getActor: () => string,
+	onChange: (events: AuditEvent[]) => void,
+	onError: (error: Error) => void,
+): AuditTrail {
+	const events: AuditEvent[] = [];
+	let destroyed = false;
+
+	const record = (
+		action: AuditAction,
+		fieldId: string | null,
+		detail: string,
+		actor = getActor(),
+	) => {
+		if (destroyed) return;
+		events.push({
+			timestamp: new Date().toISOString(),
+			action,
+			actor,
+			fieldId,
+			detail,
+		});
+		onChange([...events]);
+	};
+
+	// Changes applied for another editor are logged under their name
+	const watcher = watchPlacedFields(
+		instance,
+		() => remoteChangeAuthor(instance)?.name ?? getActor(),
+		(changes, actor) => {
+			for (const { before, after } of changes) {
+				if (!before && after) {
+					record(
+						"field-created",
+						after.formField.name,
+						`${after.fieldType} on ${pageLabel(after)}`,
+						actor,
+					);
+				} else if (before && !after) {
+					record(
+						"field-deleted",
+						before.formField.name,
+						pageLabel(before),
+						actor,
+					);
+				} else if (before && after) {
+					record(
+						"field-changed",
+						after.formField.name,
+						describeChange(before, after),
+						actor,
+					);
+				}
+			}
+		},
+		onError,
+	);
+
+	// Signing adds an annotation over the field's widget rather than a value
+	const logSignatures =
+		(action: "signature-applied" | "signature-removed") =>
+		async (annotations: List<AnnotationsUnion>) => {
+			const signatures = annotations.filter(isSignatureAnnotation).toArray();
+			if (signatures.length === 0) return;
+			const actor = remoteChangeAuthor(instance)?.name ?? getActor();
+
+			try {
+				const fields = (await getPlacedFields(instance)).filter(
+					isSignatureField,
+				);
+				for (const signature of signatures) {
+					const field = fields.find(({ widgets }) =>
+						widgets.some(
+							(widget: WidgetAnnotation) =>
+								widget.pageIndex === signature.pageIndex &&
+								widget.boundingBox.isRectOverlapping(signature.boundingBox),
+						),
+					);
+					record(
+						action,
+						field?.formField.name ?? null,
+						`page ${signature.pageIndex + 1}`,
+						actor,
+					);
+				}
+			} catch (error) {
+				onError(toError(error));
+			}
+		};
+	const handleSignatureCreate = logSignatures("signature-applied");
+	const handleSignatureDelete = logSignatures("signature-removed");
+
+	instance.addEventListener("annotations.create", handleSignatureCreate);
+	instance.addEventListener("annotations.delete", handleSignatureDelete);
+
+	return {
+		record,
+		destroy: () => {
+			destroyed = true;
+			watcher.destroy();
+			instance.removeEventListener("annotations.create", handleSignatureCreate);
+			instance.removeEventListener("annotations.delete", handleSignatureDelete);
+		},
+	};
+}
+
+// The log as a downloadable JSON document
+export function auditTrailBlob(
+	documentName: string,
+	events: AuditEvent[],
+): Blob {
+	return new Blob(
+		[JSON.stringify({ document: documentName, events }, null, 2)],
+		{ type: "application/json" },
+	);
+}
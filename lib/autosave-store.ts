@@ -0,0 +1,50 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { AutosaveRecord, AutosaveResult } from "@/lib/autosave";
+import type { FieldTemplate } from "@/lib/templates";
+
+// Server-only: one autosaved layout per document in data/autosave
+const AUTOSAVE_DIR = path.join(process.cwd(), "data", "autosave");
+
+// Document ids are SHA-256 hashes of the document
+const DOCUMENT_ID_PATTERN = /^[0-9a-f]{64}$/;
+
+export function isDocumentId(documentId: string): boolean {
+	return DOCUMENT_ID_PATTERN.test(documentId);
+}
+
+function autosavePath(documentId: string): string {
+	return path.join(AUTOSAVE_DIR, `${documentId}.json`);
+}
+
+export async function readAutosave(
+	documentId: string,
+): Promise<AutosaveRecord | null> {
+	if (!isDocumentId(documentId)) return null;
+	try {
+		return JSON.parse(await readFile(autosavePath(documentId), "utf8"));
+	} catch {
+		return null;
+	}
+}
+
+// Store a layout unless someone saved a newer one since `baseSavedAt`, the
+// save the client last saw. A conflict returns the stored record unchanged.
+export async function writeAutosave(
+	documentId: string,
+	template: FieldTemplate,
+	baseSavedAt: string | null,
+): Promise<AutosaveResult> {
+	const stored = await readAutosave(documentId);
+	if (stored && stored.savedAt > (baseSavedAt ?? "")) {
+		return { status: "conflict", record: stored };
+	}
+
+	const record: AutosaveRecord = {
+		savedAt: new Date().toISOString(),
+		template,
+	};
+	await mkdir(AUTOSAVE_DIR, { recursive: true });
+	await writeFile(autosavePath(documentId), JSON.stringify(record, null, 2));
+	return { status: "saved", record };
+}
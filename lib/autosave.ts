@@ -0,0 +1,124 @@
+import type { Instance } from "@nutrient-sdk/viewer";
+import { toError } from "@/lib/diagnostics";
+import { getPlacedFields } from "@/lib/placed-fields";
+import type { Recipient } from "@/lib/recipients";
+import { applyTemplate, type FieldTemplate } from "@/lib/templates";
+
+// A document's layout as last autosaved
+export interface AutosaveRecord {
+	savedAt: string;
+	template: FieldTemplate;
+}
+
+export type AutosaveResult =
+	| { status: "saved"; record: AutosaveRecord }
+	// Someone saved a newer layout; `record` is what is stored
+	| { status: "conflict"; record: AutosaveRecord };
+
+const LOCAL_STORAGE_PREFIX = "autosave:";
+
+// Identify a document by its content, or by its URL for remote documents
+export async function documentIdFor(
+	source: string | ArrayBuffer,
+): Promise<string> {
+	const bytes =
+		typeof source === "string" ? new TextEncoder().encode(source) : source;
+	const digest = await crypto.subtle.digest("SHA-256", bytes);
+	return Array.from(new Uint8Array(digest))
+		.map((byte) => byte.toString(16).padStart(2, "0"))
+		.join("");
+}
+
+function readLocal(documentId: string): AutosaveRecord | null {
+	try {
+		const stored = localStorage.getItem(LOCAL_STORAGE_PREFIX + documentId);
+		return stored ? JSON.parse(stored) : null;
+	} catch {
+		return null;
+	}
+}
+
+function writeLocal(
+	documentId: string,
+	template: FieldTemplate,
+	baseSavedAt: string | null,
+): AutosaveResult {
+	const stored = readLocal(documentId);
+	if (stored && stored.savedAt > (baseSavedAt ?? "")) {
+		return { status: "conflict", record: stored };
+	}
+
+	const record = { savedAt: new Date().toISOString(), template };
+	localStorage.setItem(
+		LOCAL_STORAGE_PREFIX + documentId,
+		JSON.stringify(record),
+	);
+	return { status: "saved", record };
+}
+
+// Load the autosaved layout, from the server or, when it can't be reached,
+// from this browser's local storage. `onOffline` is told why the server
+// couldn't be used.
+export async function loadAutosave(
+	documentId: string,
+	onOffline: (error: Error) => void,
+): Promise<AutosaveRecord | null> {
+	try {
+		const response = await fetch(`/api/autosave/${documentId}`);
+		if (response.status === 404) return readLocal(documentId);
+		if (!response.ok) throw new Error(response.statusText);
+		return await response.json();
+	} catch (error) {
+		onOffline(toError(error));
+		return readLocal(documentId);
+	}
+}
+
+export async function saveAutosave(
+	documentId: string,
+	template: FieldTemplate,
+	baseSavedAt: string | null,
+	onOffline: (error: Error) => void,
+): Promise<AutosaveResult & { local: boolean }> {
+	try {
+		const response = await fetch(`/api/autosave/${documentId}`, {
+			method: "PUT",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ template, baseSavedAt }),
+		});
+		if (response.status === 409) {
+			return {
+				status: "conflict",
+				record: await response.json(),
+				local: false,
+			};
+		}
+		if (!response.ok) throw new Error(response.statusText);
+		return { status: "saved", record: await response.json(), local: false };
+	} catch (error) {
+		onOffline(toError(error));
+		return { ...writeLocal(documentId, template, baseSavedAt), local: true };
+	}
+}
+
+// Swap the fields on the document for the ones in a saved layout. Returns the
+// recipients including any the layout brought along.
+export async function restoreLayout(
+	instance: Instance,
+	template: FieldTemplate,
+	recipients: Recipient[],
+): Promise<Recipient[]> {
+	const missing = template.recipients.filter(
+		({ id }) => !recipients.some((recipient) => recipient.id === id),
+	);
+	const allRecipients = [...recipients, ...missing];
+
+	const placedFields = await getPlacedFields(instance);
+	if (placedFields.length > 0) {
+		await instance.delete(
+			placedFields.flatMap(({ formField, widgets }) => [...widgets, formField]),
+		);
+	}
+	await applyTemplate(instance, template, allRecipients);
+	return allRecipients;
+}
@@ -0,0 +1,133 @@
+import { AUDIT_ACTION_LABELS, type AuditEvent } from "@/lib/audit-trail";
+
+// Renders the audit trail as a standalone "certificate of completion" PDF,
+// which the export appends to the document. Text only, in the standard
+// Helvetica font, so it needs no font files.
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const FONT_SIZE = 9;
+const LINE_HEIGHT = 13;
+// Helvetica averages about half an em per character
+const MAX_LINE_CHARS = Math.floor((PAGE_WIDTH - 2 * MARGIN) / (FONT_SIZE / 2));
+
+interface Line {
+	text: string;
+	size: number;
+	bold?: boolean;
+}
+
+// The standard fonts only cover a single-byte encoding, and byte offsets in
+// the file are counted in characters, so anything outside printable ASCII is
+// replaced
+function pdfString(text: string): string {
+	const ascii = text.replace(/[^\x20-\x7e]/g, "?");
+	return `(${ascii.replace(/[\\()]/g, (char) => `\\${char}`)})`;
+}
+
+function wrap(text: string): string[] {
+	const lines: string[] = [];
+	let rest = text;
+	while (rest.length > MAX_LINE_CHARS) {
+		const breakAt = rest.lastIndexOf(" ", MAX_LINE_CHARS);
+		const cut = breakAt > 0 ? breakAt : MAX_LINE_CHARS;
+		lines.push(rest.slice(0, cut));
+		rest = `    ${rest.slice(cut).trimStart()}`;
+	}
+	lines.push(rest);
+	return lines;
+}
+
+function certificateLines(
+	documentName: string,
+	completedAt: Date,
+	events: AuditEvent[],
+): Line[] {
+	const signers = [
+		...new Set(
+			events
+				.filter(({ action }) => action === "signature-applied")
+				.map(({ actor }) => actor),
+		),
+	];
+
+	return [
+		{ text: "Certificate of completion", size: 18, bold: true },
+		{ text: "", size: FONT_SIZE },
+		{ text: `Document: ${documentName}`, size: 11 },
+		{ text: `Completed: ${completedAt.toISOString()}`, size: 11 },
+		{
+			text: `Signed by: ${signers.length > 0 ? signers.join(", ") : "nobody"}`,
+			size: 11,
+		},
+		{ text: "", size: FONT_SIZE },
+		{ text: "Audit trail (times in UTC)", size: 12, bold: true },
+		...events.flatMap((event) =>
+			wrap(
+				`${event.timestamp}  ${event.actor}  ${AUDIT_ACTION_LABELS[event.action]}${event.fieldId ? `  ${event.fieldId}` : ""}  ${event.detail}`,
+			).map((text) => ({ text, size: FONT_SIZE })),
+		),
+	];
+}
+
+// Lay the lines out top to bottom, starting a new page when one is full
+function paginate(lines: Line[]): string[] {
+	const pages: string[] = [];
+	let content: string[] = [];
+	let y = PAGE_HEIGHT - MARGIN;
+
+	for (const line of lines) {
+		const height = Math.max(LINE_HEIGHT, line.size * 1.4);
+		if (y - height < MARGIN) {
+			pages.push(content.join("\n"));
+			content = [];
+			y = PAGE_HEIGHT - MARGIN;
+		}
+		y -= height;
+		if (line.text) {
+			content.push(
+				`BT /${line.bold ? "F2" : "F1"} ${line.size} Tf ${MARGIN} ${y.toFixed(2)} Td ${pdfString(line.text)} Tj ET`,
+			);
+		}
+	}
+	pages.push(content.join("\n"));
+	return pages;
+}
+
+export function renderCertificate(
+	documentName: string,
+	completedAt: Date,
+	events: AuditEvent[],
+): Blob {
+	const pages = paginate(certificateLines(documentName, completedAt, events));
+
+	// Objects 1-4 are the catalog, page tree and fonts; each page then takes
+	// two: the page and its content stream
+	const pageIds = pages.map((_, index) => 5 + index * 2);
+	const objects = [
+		"<< /Type /Catalog /Pages 2 0 R >>",
+		`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+		"<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+		"<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold >>",
+		...pages.flatMap((content, index) => [
+			`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+			`<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+		]),
+	];
+
+	let pdf = "%PDF-1.4\n";
+	const offsets = objects.map((object, index) => {
+		const offset = pdf.length;
+		pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+		return offset;
+	});
+	const xrefOffset = pdf.length;
+	pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+	pdf += offsets
+		.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+		.join("");
+	pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+	return new Blob([pdf], { type: "application/pdf" });
+}
@@ -0,0 +1,452 @@
+import type {
+	AnnotationsUnion,
+	FormField,
+	Instance,
+	List,
+	WidgetAnnotation,
+} from "@nutrient-sdk/viewer";
+import { toError } from "@/lib/diagnostics";
+import { isFieldWidget } from "@/lib/recipients";
+
+// Real-time collaboration between editors of the same document, through the
+// relay in scripts/collab-server.mjs. Field widgets and form fields created,
+// updated or deleted in one session are applied in the others with the same
+// IDs, and each session's selection is shown to the others.
+
+export interface Collaborator {
+	id: string;
+	name: string;
+	color: string;
+}
+
+export type ConnectionStatus = "connecting" | "connected" | "disconnected";
+
+// A remote change that couldn't be applied, a local one that couldn't be
+// sent, or selections that couldn't be shown
+export type CollaborationErrorSource = "change" | "send" | "presence";
+
+type ChangeAction = "create" | "update" | "delete";
+
+// Form fields serialize without their ID
+interface SerializedFormField {
+	id: string;
+	json: unknown;
+}
+
+interface FieldChange {
+	action: ChangeAction;
+	// Widgets in InstantJSON
+	annotations: unknown[];
+	formFields: SerializedFormField[];
+}
+
+type RelayMessage =
+	| { type: "peers"; peers: Collaborator[] }
+	| { type: "join"; user: Collaborator }
+	| { type: "leave"; userId: string }
+	| { type: "changes"; from: string; changes: FieldChange[] }
+	| { type: "presence"; from: string; selection: string[] };
+
+export interface CollaborationOptions {
+	url: string;
+	// Sessions in the same room edit the same document
+	room: string;
+	user: Collaborator;
+	onPeersChange: (peers: Collaborator[]) => void;
+	onStatusChange: (status: ConnectionStatus) => void;
+	onError: (error: Error, source: CollaborationErrorSource) => void;
+}
+
+export interface CollaborationSession {
+	// Local changes are only sent while broadcasting, i.e. in Form Creator mode
+	setBroadcasting: (enabled: boolean) => void;
+	destroy: () => void;
+}
+
+export const DEFAULT_COLLABORATION_URL =
+	process.env.NEXT_PUBLIC_COLLAB_URL ?? "ws://localhost:3001";
+
+export const COLLABORATOR_COLORS = [
+	"#2563eb",
+	"#db2777",
+	"#16a34a",
+	"#ea580c",
+	"#7c3aed",
+	"#0891b2",
+];
+
+// Changes arriving this close together, such as a widget and its form field,
+// are sent as one message so they are applied together
+const FLUSH_DELAY_MS = 30;
+
+const ANNOTATION_EVENTS = [
+	["create", "annotations.create"],
+	["update", "annotations.update"],
+	["delete", "annotations.delete"],
+] as const;
+
+const FORM_FIELD_EVENTS = [
+	["create", "formFields.create"],
+	["update", "formFields.update"],
+	["delete", "formFields.delete"],
+] as const;
+
+const ACTIONS: ChangeAction[] = ["create", "update", "delete"];
+
+const PRESENCE_PREFIX = "presence-";
+
+// Local changes waiting to be sent, by action
+interface PendingChanges {
+	action: ChangeAction;
+	annotations: Map<string, AnnotationsUnion>;
+	formFields: Map<string, FormField>;
+}
+
+function emptyPendingChanges(): PendingChanges[] {
+	return ACTIONS.map((action) => ({
+		action,
+		annotations: new Map(),
+		formFields: new Map(),
+	}));
+}
+
+// The editor whose change each instance is applying right now
+const applyingFrom = new WeakMap<Instance, Collaborator>();
+
+// Who made the changes the instance is going through right now: another
+// editor while their change is applied, null for local edits. The undo history
+// and audit trail use it to tell the two apart.
+export function remoteChangeAuthor(instance: Instance): Collaborator | null {
+	return applyingFrom.get(instance) ?? null;
+}
+
+function presenceItemId(peerId: string, widgetId: string): string {
+	return `${PRESENCE_PREFIX}${peerId}-${widgetId}`;
+}
+
+// Outline and name tag around a widget another editor has selected
+function presenceNode(peer: Collaborator, widget: WidgetAnnotation) {
+	const outline = document.createElement("div");
+	Object.assign(outline.style, {
+		// Overlay items are laid out at zoom 1 and scaled with the page
+		width: `${widget.boundingBox.width}px`,
+		height: `${widget.boundingBox.height}px`,
+		outline: `2px solid ${peer.color}`,
+		outlineOffset: "2px",
+		pointerEvents: "none",
+		position: "relative",
+	});
+
+	const tag = document.createElement("span");
+	tag.textContent = peer.name;
+	Object.assign(tag.style, {
+		position: "absolute",
+		bottom: "100%",
+		left: "-2px",
+		marginBottom: "3px",
+		padding: "0 4px",
+		background: peer.color,
+		color: "#fff",
+		fontSize: "11px",
+		lineHeight: "16px",
+		borderRadius: "2px",
+		whiteSpace: "nowrap",
+	});
+	outline.append(tag);
+	return outline;
+}
+
+export function connectCollaboration(
+	instance: Instance,
+	options: CollaborationOptions,
+): CollaborationSession {
+	const { NutrientViewer } = window;
+	if (!NutrientViewer) {
+		return { setBroadcasting: () => {}, destroy: () => {} };
+	}
+
+	let broadcasting = false;
+	let destroyed = false;
+	const peers = new Map<string, Collaborator>();
+	const selections = new Map<string, string[]>();
+	const shownPresence = new Set<string>();
+	let flushTimer: ReturnType<typeof setTimeout> | null = null;
+	let pending = emptyPendingChanges();
+	// Serializes sending so changes go out in order
+	let outgoing = Promise.resolve();
+	// Widgets of fields placed through drag and drop. Only their form fields
+	// are shared, not the document's own.
+	const fieldWidgetIds = new Set<string>();
+	// Serializes remote changes so they are applied in order. While one is
+	// being applied, the events it causes are its echo, not new edits.
+	let incoming = Promise.resolve();
+
+	const socket = new WebSocket(options.url);
+	options.onStatusChange("connecting");
+
+	const send = (message: object) => {
+		if (socket.readyState === WebSocket.OPEN) {
+			socket.send(JSON.stringify(message));
+		}
+	};
+
+	const reportPeers = () => options.onPeersChange([...peers.values()]);
+
+	const loadFieldWidgets = async () => {
+		const widgets = new Map<string, WidgetAnnotation>();
+		for (let pageIndex = 0; pageIndex < instance.totalPageCount; pageIndex++) {
+			const annotations = await instance.getAnnotations(pageIndex);
+			for (const annotation of annotations.toArray()) {
+				if (isFieldWidget(annotation)) widgets.set(annotation.id, annotation);
+			}
+		}
+		for (const id of widgets.keys()) fieldWidgetIds.add(id);
+		return widgets;
+	};
+
+	const hasFieldWidget = (formField: FormField) =>
+		formField.annotationIds.some((id) => fieldWidgetIds.has(id));
+
+	// Outline the widgets other editors have selected
+	const renderPresence = async () => {
+		const widgets = await loadFieldWidgets();
+		if (destroyed) return;
+
+		for (const id of shownPresence) instance.removeCustomOverlayItem(id);
+		shownPresence.clear();
+
+		for (const [peerId, selection] of selections) {
+			const peer = peers.get(peerId);
+			if (!peer) continue;
+			for (const widgetId of selection) {
+				const widget = widgets.get(widgetId);
+				if (!widget) continue;
+
+				const id = presenceItemId(peerId, widgetId);
+				instance.setCustomOverlayItem(
+					new NutrientViewer.CustomOverlayItem({
+						id,
+						node: presenceNode(peer, widget),
+						pageIndex: widget.pageIndex,
+						position: new NutrientViewer.Geometry.Point({
+							x: widget.boundingBox.left,
+							y: widget.boundingBox.top,
+						}),
+					}),
+				);
+				shownPresence.add(id);
+			}
+		}
+	};
+	const refreshPresence = () => {
+		if (selections.size === 0 && shownPresence.size === 0) return;
+		renderPresence().catch((error) =>
+			options.onError(toError(error), "presence"),
+		);
+	};
+
+	const sendChanges = async (batches: PendingChanges[]) => {
+		// Fields placed before this session started aren't known yet
+		const formFields = batches.flatMap(({ formFields }) => [
+			...formFields.values(),
+		]);
+		if (!formFields.every(hasFieldWidget)) await loadFieldWidgets();
+		if (destroyed) return;
+
+		const changes: FieldChange[] = batches
+			.map(({ action, annotations, formFields }) => ({
+				action,
+				annotations: [...annotations.values()].map((annotation) =>
+					NutrientViewer.Annotations.toSerializableObject(
+						annotation as WidgetAnnotation,
+					),
+				),
+				formFields: [...formFields.values()]
+					.filter(hasFieldWidget)
+					.map((formField) => ({
+						id: formField.id,
+						json: NutrientViewer.FormFields.toSerializableObject(formField),
+					})),
+			}))
+			.filter(
+				({ annotations, formFields }) =>
+					annotations.length > 0 || formFields.length > 0,
+			);
+		if (changes.length > 0) send({ type: "changes", changes });
+	};
+
+	const flush = () => {
+		flushTimer = null;
+		const batches = pending;
+		pending = emptyPendingChanges();
+		outgoing = outgoing
+			.then(() => sendChanges(batches))
+			.catch((error) => options.onError(toError(error), "send"));
+	};
+
+	const queue = (
+		action: ChangeAction,
+		items: { annotations?: AnnotationsUnion[]; formFields?: FormField[] },
+	) => {
+		const widgets = (items.annotations ?? []).filter(isFieldWidget);
+		for (const { id } of widgets) fieldWidgetIds.add(id);
+		if (!broadcasting || applyingFrom.has(instance)) return;
+
+		const batch = pending[ACTIONS.indexOf(action)];
+		for (const widget of widgets) batch.annotations.set(widget.id, widget);
+		for (const formField of items.formFields ?? []) {
+			batch.formFields.set(formField.id, formField);
+		}
+		if (!flushTimer) flushTimer = setTimeout(flush, FLUSH_DELAY_MS);
+	};
+
+	const applyChange = async (
+		{ action, annotations, formFields }: FieldChange,
+		author: Collaborator,
+	) => {
+		const widgets = annotations.map((json) =>
+			NutrientViewer.Annotations.fromSerializableObject(
+				json as Parameters<
+					typeof NutrientViewer.Annotations.fromSerializableObject
+				>[0],
+			),
+		);
+		const fields = formFields.map(({ id, json }) =>
+			NutrientViewer.FormFields.fromSerializableObject(
+				id,
+				json as Parameters<
+					typeof NutrientViewer.FormFields.fromSerializableObject
+				>[1],
+			),
+		);
+
+		applyingFrom.set(instance, author);
+		try {
+			switch (action) {
+				case "create":
+					await instance.create([...widgets, ...fields]);
+					break;
+				case "update":
+					await instance.update([...widgets, ...fields]);
+					break;
+				case "delete":
+					await instance.delete([...widgets, ...fields].map(({ id }) => id));
+					break;
+			}
+		} finally {
+			applyingFrom.delete(instance);
+		}
+	};
+
+	const handleMessage = (event: MessageEvent) => {
+		let message: RelayMessage;
+		try {
+			message = JSON.parse(event.data);
+		} catch {
+			return;
+		}
+
+		switch (message.type) {
+			case "peers":
+				peers.clear();
+				for (const peer of message.peers) peers.set(peer.id, peer);
+				reportPeers();
+				break;
+			case "join":
+				peers.set(message.user.id, message.user);
+				reportPeers();
+				break;
+			case "leave":
+				peers.delete(message.userId);
+				selections.delete(message.userId);
+				reportPeers();
+				refreshPresence();
+				break;
+			case "changes":
+				incoming = incoming
+					.then(async () => {
+						const author = peers.get(message.from) ?? {
+							id: message.from,
+							name: "Another editor",
+							color: COLLABORATOR_COLORS[0],
+						};
+						for (const change of message.changes) {
+							if (destroyed) return;
+							await applyChange(change, author);
+						}
+					})
+					.catch((error) => options.onError(toError(error), "change"));
+				break;
+			case "presence":
+				selections.set(message.from, message.selection);
+				refreshPresence();
+				break;
+		}
+	};
+
+	const sendSelection = () => {
+		const selection = instance.getSelectedAnnotations();
+		send({
+			type: "presence",
+			selection: (selection?.toArray() ?? [])
+				.filter(isFieldWidget)
+				.map(({ id }) => id),
+		});
+	};
+
+	socket.addEventListener("open", () => {
+		options.onStatusChange("connected");
+		send({ type: "join", room: options.room, user: options.user });
+		sendSelection();
+	});
+	socket.addEventListener("message", handleMessage);
+	socket.addEventListener("close", () => {
+		if (destroyed) return;
+		options.onStatusChange("disconnected");
+		peers.clear();
+		selections.clear();
+		reportPeers();
+		refreshPresence();
+	});
+
+	const annotationHandlers = ANNOTATION_EVENTS.map(([action, event]) => ({
+		event,
+		handler: (annotations: List<AnnotationsUnion>) =>
+			queue(action, { annotations: annotations.toArray() }),
+	}));
+	const formFieldHandlers = FORM_FIELD_EVENTS.map(([action, event]) => ({
+		event,
+		handler: (formFields: List<FormField>) =>
+			queue(action, { formFields: formFields.toArray() }),
+	}));
+
+	for (const { event, handler } of annotationHandlers) {
+		instance.addEventListener(event, handler);
+	}
+	for (const { event, handler } of formFieldHandlers) {
+		instance.addEventListener(event, handler);
+	}
+	instance.addEventListener("annotationSelection.change", sendSelection);
+	instance.addEventListener("annotations.change", refreshPresence);
+
+	return {
+		setBroadcasting: (enabled) => {
+			broadcasting = enabled;
+		},
+		destroy: () => {
+			destroyed = true;
+			if (flushTimer) clearTimeout(flushTimer);
+			for (const { event, handler } of annotationHandlers) {
+				instance.removeEventListener(event, handler);
+			}
+			for (const { event, handler } of formFieldHandlers) {
+				instance.removeEventListener(event, handler);
+			}
+			instance.removeEventListener("annotationSelection.change", sendSelection);
+			instance.removeEventListener("annotations.change", refreshPresence);
+			for (const id of shownPresence) instance.removeCustomOverlayItem(id);
+			socket.close();
+			options.onStatusChange("disconnected");
+		},
+	};
+}
@@ -0,0 +1,102 @@
+import type { Instance } from "@nutrient-sdk/viewer";
+import type { PlacedField } from "@/lib/placed-fields";
+
+// Mail-merge data binding: a text or choice field filled from a column of a
+// dataset. The column key is stored in the widgets' customData.
+
+export type BindableKind = "text" | "choice" | "radio";
+
+export interface BindableField {
+	field: PlacedField;
+	kind: BindableKind;
+	// Values a choice or radio field accepts; empty for text fields
+	options: string[];
+	dataKey: string | null;
+}
+
+export function getDataKey(field: PlacedField): string | null {
+	const dataKey = field.widgets[0].customData?.dataKey;
+	return typeof dataKey === "string" && dataKey ? dataKey : null;
+}
+
+// Bind the field to a column, or unbind it with null
+export async function setDataKey(
+	instance: Instance,
+	field: PlacedField,
+	dataKey: string | null,
+): Promise<void> {
+	if (getDataKey(field) === dataKey) return;
+
+	await instance.update(
+		field.widgets.map((widget) =>
+			widget.set("customData", { ...widget.customData, dataKey }),
+		),
+	);
+}
+
+function bindableKind(field: PlacedField): BindableKind | null {
+	const { NutrientViewer } = window;
+	if (!NutrientViewer) return null;
+
+	const {
+		TextFormField,
+		ComboBoxFormField,
+		ListBoxFormField,
+		RadioButtonFormField,
+	} = NutrientViewer.FormFields;
+	const { formField } = field;
+	if (formField instanceof TextFormField) return "text";
+	if (
+		formField instanceof ComboBoxFormField ||
+		formField instanceof ListBoxFormField
+	) {
+		return "choice";
+	}
+	if (formField instanceof RadioButtonFormField) return "radio";
+	return null;
+}
+
+// The placed fields that can be filled from a dataset, in their current order
+export function getBindableFields(fields: PlacedField[]): BindableField[] {
+	return fields.flatMap((field) => {
+		const kind = bindableKind(field);
+		if (!kind) return [];
+
+		const options = field.formField.get("options");
+		return [
+			{
+				field,
+				kind,
+				options: options
+					? options.toArray().map((option: { value: string }) => option.value)
+					: [],
+				dataKey: getDataKey(field),
+			},
+		];
+	});
+}
+
+function normalize(key: string): string {
+	return key.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// Bind unbound fields to the column whose key matches their name or label,
+// ignoring case and punctuation. Returns the number of fields bound.
+export async function bindByName(
+	instance: Instance,
+	fields: BindableField[],
+	columns: string[],
+): Promise<number> {
+	let bound = 0;
+	for (const { field, dataKey } of fields) {
+		if (dataKey) continue;
+
+		const names = [field.formField.name, field.formField.label].map(normalize);
+		const column = columns.find((key) => names.includes(normalize(key)));
+		if (column) {
+			await setDataKey(instance, field, column);
+			bound++;
+		}
+	}
+	return bound;
+}
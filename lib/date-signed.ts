@@ -0,0 +1,167 @@
+import type { Instance, WidgetAnnotation } from "@nutrient-sdk/viewer";
+import { toError } from "@/lib/diagnostics";
+import { getFieldType } from "@/lib/field-types";
+import { getPlacedFields, type PlacedField } from "@/lib/placed-fields";
+import { hasSignature } from "@/lib/signing";
+
+export const DATE_SIGNED_TYPE = "DateSigned";
+
+export interface DateSignedFormat {
+	// BCP 47 locale, e.g. "en-US" or "de-DE"
+	locale: string;
+	// Intl date style, or "iso" for YYYY-MM-DD
+	style: "short" | "medium" | "long" | "full" | "iso";
+}
+
+export const DEFAULT_DATE_SIGNED_FORMAT: DateSignedFormat = {
+	locale: "en-US",
+	style: "medium",
+};
+
+export function formatSigningDate(
+	date: Date,
+	{ locale, style }: DateSignedFormat,
+): string {
+	if (style === "iso") {
+		const pad = (value: number) => String(value).padStart(2, "0");
+		return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+	}
+	try {
+		return new Intl.DateTimeFormat(locale, { dateStyle: style }).format(date);
+	} catch {
+		// Unknown locale tags fall back to the browser's locale
+		return new Intl.DateTimeFormat(undefined, { dateStyle: style }).format(
+			date,
+		);
+	}
+}
+
+export function isSignatureField(field: PlacedField): boolean {
+	return getFieldType(field.fieldType)?.formFieldClass === "SignatureFormField";
+}
+
+// Id of the signature widget a date field was explicitly linked to, if any
+export function getLinkedSignatureId(widget: WidgetAnnotation): string | null {
+	const linked = widget.customData?.linkedSignatureId;
+	return typeof linked === "string" ? linked : null;
+}
+
+function distance(a: PlacedField, b: PlacedField): number {
+	const boxA = a.widgets[0].boundingBox;
+	const boxB = b.widgets[0].boundingBox;
+	return Math.hypot(
+		boxA.left + boxA.width / 2 - (boxB.left + boxB.width / 2),
+		boxA.top + boxA.height / 2 - (boxB.top + boxB.height / 2),
+	);
+}
+
+// The signature a date field follows: the one picked in the UI, otherwise the
+// nearest signature field on the same page
+export function findLinkedSignature(
+	dateField: PlacedField,
+	fields: PlacedField[],
+): PlacedField | null {
+	const linkedId = getLinkedSignatureId(dateField.widgets[0]);
+	if (linkedId) {
+		const linked = fields.find(({ widgets }) =>
+			widgets.some(({ id }) => id === linkedId),
+		);
+		if (linked) return linked;
+	}
+
+	let nearest: PlacedField | null = null;
+	for (const field of fields) {
+		if (!isSignatureField(field) || field.pageIndex !== dateField.pageIndex) {
+			continue;
+		}
+		if (!nearest || distance(field, dateField) < distance(nearest, dateField)) {
+			nearest = field;
+		}
+	}
+	return nearest;
+}
+
+// Whether the date field holds a stamped signing date
+export function isDateStamped(widget: WidgetAnnotation): boolean {
+	return widget.customData?.dateStamped === true;
+}
+
+// Link a date field to a signature widget, or back to the nearest one with null
+export async function linkDateToSignature(
+	instance: Instance,
+	dateWidget: WidgetAnnotation,
+	signatureWidgetId: string | null,
+): Promise<void> {
+	await instance.update(
+		dateWidget.set("customData", {
+			...dateWidget.customData,
+			linkedSignatureId: signatureWidgetId,
+		}),
+	);
+}
+
+// Stamp date fields when their signature is applied and reset them when it's
+// cleared. A stamped date field is read-only until the signature is cleared,
+// and its widgets are marked in their custom data so the stamp is recognised
+// later. Returns a function that stops watching.
+export function watchDateSignedFields(
+	instance: Instance,
+	getFormat: () => DateSignedFormat,
+	onError: (error: Error) => void,
+): () => void {
+	let stopped = false;
+	let queue = Promise.resolve();
+
+	const sync = async () => {
+		const fields = await getPlacedFields(instance);
+		const values = instance.getFormFieldValues();
+		const placeholder = getFieldType(DATE_SIGNED_TYPE)?.defaultValue ?? "";
+
+		for (const field of fields) {
+			if (stopped) return;
+			if (field.fieldType !== DATE_SIGNED_TYPE) continue;
+
+			const signature = findLinkedSignature(field, fields);
+			const signed = signature
+				? await hasSignature(instance, signature)
+				: false;
+			const { formField, widgets } = field;
+			if (signed === isDateStamped(widgets[0])) continue;
+
+			const markStamped = (stamped: boolean) =>
+				instance.update([
+					...widgets.map((widget) =>
+						widget.set("customData", {
+							...widget.customData,
+							dateStamped: stamped,
+						}),
+					),
+					formField.set("readOnly", stamped),
+				]);
+
+			// The value is written while the field is still editable
+			if (signed) {
+				await instance.setFormFieldValues({
+					[formField.name]: formatSigningDate(new Date(), getFormat()),
+				});
+				await markStamped(true);
+			} else {
+				await markStamped(false);
+				if (values[formField.name] !== placeholder) {
+					await instance.setFormFieldValues({ [formField.name]: placeholder });
+				}
+			}
+		}
+	};
+
+	const handleChange = () => {
+		queue = queue.then(sync).catch((error) => onError(toError(error)));
+	};
+
+	instance.addEventListener("annotations.change", handleChange);
+	handleChange();
+	return () => {
+		stopped = true;
+		instance.removeEventListener("annotations.change", handleChange);
+	};
+}
@@ -0,0 +1,114 @@
+// A typed stream of what the viewer and the sidebar panels did and what went
+// wrong. Warnings and errors are shown to the user as toasts; everything is
+// kept for the debug panel.
+
+export type DiagnosticLevel = "info" | "warning" | "error";
+
+export type DiagnosticCode =
+	| "viewer-loaded"
+	| "viewer-load-failed"
+	| "initial-fields-failed"
+	| "viewer-unloaded"
+	| "mode-changed"
+	| "field-created"
+	| "field-create-failed"
+	| "field-remove-failed"
+	| "fields-read-failed"
+	| "field-update-failed"
+	| "field-history-failed"
+	| "date-signed-failed"
+	| "audit-trail-failed"
+	| "autosave-offline"
+	| "autosave-failed"
+	| "layout-restore-failed"
+	| "signatures-failed"
+	| "signature-apply-failed"
+	| "template-failed"
+	| "export-failed"
+	| "validation-failed"
+	| "field-detection-failed"
+	| "dataset-read-failed"
+	| "mail-merge-failed"
+	| "unknown-field-type"
+	| "drop-outside-page"
+	| "file-drop-rejected"
+	| "file-read-failed"
+	| "image-added"
+	| "image-add-failed"
+	| "collaboration-disconnected"
+	| "collaboration-change-failed"
+	| "collaboration-presence-failed";
+
+export interface DiagnosticInput {
+	level: DiagnosticLevel;
+	code: DiagnosticCode;
+	// What happened, written for the user
+	message: string;
+	error?: Error;
+	// Raw values for the debug panel
+	data?: Record<string, unknown>;
+	// Tries the failed action again, when that can help
+	retry?: () => void;
+}
+
+export interface Diagnostic extends DiagnosticInput {
+	id: number;
+	// ISO 8601
+	timestamp: string;
+}
+
+export interface DiagnosticChannel {
+	report: (input: DiagnosticInput) => Diagnostic;
+	// Calls the listener with every diagnostic reported from now on
+	subscribe: (listener: (diagnostic: Diagnostic) => void) => () => void;
+	// Diagnostics reported so far, oldest first
+	history: () => Diagnostic[];
+}
+
+// Older diagnostics are dropped from the history past this many
+const MAX_HISTORY = 200;
+
+export function createDiagnosticChannel(): DiagnosticChannel {
+	const listeners = new Set<(diagnostic: Diagnostic) => void>();
+	const history: Diagnostic[] = [];
+	let nextId = 1;
+
+	return {
+		report: (input) => {
+			const diagnostic = {
+				...input,
+				id: nextId++,
+				timestamp: new Date().toISOString(),
+			};
+			history.push(diagnostic);
+			if (history.length > MAX_HISTORY) history.shift();
+			for (const listener of listeners) listener(diagnostic);
+			return diagnostic;
+		},
+		subscribe: (listener) => {
+			listeners.add(listener);
+			return () => {
+				listeners.delete(listener);
+			};
+		},
+		history: () => [...history],
+	};
+}
+
+export function toError(error: unknown): Error {
+	return error instanceof Error ? error : new Error(String(error));
+}
+
+// Fallback for hosts that don't listen for diagnostics
+export function logDiagnostic({
+	level,
+	message,
+	error,
+	data,
+}: DiagnosticInput): void {
+	if (level === "error") {
+		console.error(message, error ?? data ?? "");
+	} else if (level === "warning") {
+		console.warn(message, data ?? "");
+	}
+}
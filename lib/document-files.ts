@@ -0,0 +1,25 @@
+// A PDF opened from disk, or a URL to load one from
+export interface OpenDocument {
+	source: string | ArrayBuffer;
+	name: string;
+}
+
+export function isPdfFile(file: File): boolean {
+	return (
+		file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf")
+	);
+}
+
+// Desktop file drags carry "Files"; palette drags only carry a `text` payload
+export function isFileDrag(event: DragEvent | React.DragEvent): boolean {
+	return Array.from(event.dataTransfer?.types ?? []).includes("Files");
+}
+
+export function getDroppedPdf(event: DragEvent | React.DragEvent): File | null {
+	const files = Array.from(event.dataTransfer?.files ?? []);
+	return files.find(isPdfFile) ?? null;
+}
+
+export async function readDocumentFile(file: File): Promise<OpenDocument> {
+	return { source: await file.arrayBuffer(), name: file.name };
+}
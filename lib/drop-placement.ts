@@ -0,0 +1,116 @@
+// Pure geometry for placing a dropped field on a page. Everything is in page
+// space (PDF points), so the results don't depend on zoom or scroll.
+
+export interface Box {
+	left: number;
+	top: number;
+	width: number;
+	height: number;
+}
+
+export interface Guide {
+	orientation: "vertical" | "horizontal";
+	// x for vertical guides, y for horizontal ones
+	position: number;
+}
+
+export interface PlacementOptions {
+	// Grid size in page points, or null to place freely
+	snapGrid: number | null;
+	// Snap to the edges and centers of other widgets on the page
+	smartGuides: boolean;
+	// How close, in page points, an edge has to be to snap to a guide
+	guideThreshold: number;
+}
+
+export interface PlacementResult {
+	boundingBox: Box;
+	guides: Guide[];
+}
+
+function snapToGrid(value: number, grid: number): number {
+	return Math.round(value / grid) * grid;
+}
+
+// Offset that moves the closest of `edges` onto one of `targets`, if any is in reach
+function closestSnap(
+	edges: number[],
+	targets: number[],
+	threshold: number,
+): { offset: number; position: number } | null {
+	let best: { offset: number; position: number } | null = null;
+	for (const edge of edges) {
+		for (const target of targets) {
+			const offset = target - edge;
+			if (
+				Math.abs(offset) <= threshold &&
+				(!best || Math.abs(offset) < Math.abs(best.offset))
+			) {
+				best = { offset, position: target };
+			}
+		}
+	}
+	return best;
+}
+
+function clamp(value: number, min: number, max: number): number {
+	return Math.min(Math.max(value, min), Math.max(min, max));
+}
+
+// Snap a proposed bounding box to the grid and to neighbouring widgets, then
+// keep it inside the page.
+export function placeBox(
+	proposed: Box,
+	page: { width: number; height: number },
+	neighbours: Box[],
+	options: PlacementOptions,
+): PlacementResult {
+	let { left, top } = proposed;
+	const { width, height } = proposed;
+	const guides: Guide[] = [];
+
+	if (options.snapGrid && options.snapGrid > 0) {
+		left = snapToGrid(left, options.snapGrid);
+		top = snapToGrid(top, options.snapGrid);
+	}
+
+	if (options.smartGuides && neighbours.length > 0) {
+		const xSnap = closestSnap(
+			[left, left + width / 2, left + width],
+			neighbours.flatMap((box) => [
+				box.left,
+				box.left + box.width / 2,
+				box.left + box.width,
+			]),
+			options.guideThreshold,
+		);
+		if (xSnap) {
+			left += xSnap.offset;
+			guides.push({ orientation: "vertical", position: xSnap.position });
+		}
+
+		const ySnap = closestSnap(
+			[top, top + height / 2, top + height],
+			neighbours.flatMap((box) => [
+				box.top,
+				box.top + box.height / 2,
+				box.top + box.height,
+			]),
+			options.guideThreshold,
+		);
+		if (ySnap) {
+			top += ySnap.offset;
+			guides.push({ orientation: "horizontal", position: ySnap.position });
+		}
+	}
+
+	return {
+		boundingBox: {
+			left: clamp(left, 0, page.width - width),
+			top: clamp(top, 0, page.height - height),
+			width: Math.min(width, page.width),
+			height: Math.min(height, page.height),
+		},
+		guides,
+	};
+}
@@ -0,0 +1,96 @@
+import type { Instance } from "@nutrient-sdk/viewer";
+import type { Box, Guide } from "@/lib/drop-placement";
+import { asDocument } from "@/lib/placed-fields";
+
+export interface DropPreviewState {
+	pageIndex: number;
+	// Where the field will land, in page space
+	boundingBox: Box;
+	guides: Guide[];
+}
+
+export interface DropPreview {
+	update: (preview: DropPreviewState | null) => void;
+	destroy: () => void;
+}
+
+const GHOST_COLOR = "#2563eb";
+const GUIDE_COLOR = "#ec4899";
+
+function applyStyle(element: HTMLElement, style: Partial<CSSStyleDeclaration>) {
+	Object.assign(element.style, style);
+}
+
+// Draws the drop ghost and alignment guides inside the viewer's content
+// document, so the overlay shares the coordinate space the SDK reports events in.
+export function createDropPreview(instance: Instance): DropPreview {
+	const root = instance.contentDocument;
+	const contentDocument = asDocument(root);
+	const ownerDocument = contentDocument ?? (root as ShadowRoot).ownerDocument;
+	const host = contentDocument?.body ?? root;
+
+	const layer = ownerDocument.createElement("div");
+	applyStyle(layer, {
+		position: "fixed",
+		inset: "0",
+		pointerEvents: "none",
+		zIndex: "1000",
+	});
+	host.appendChild(layer);
+
+	const toClient = (pageIndex: number, box: Box) => {
+		const { NutrientViewer } = window;
+		if (!NutrientViewer) return box;
+		return instance.transformContentPageToClientSpace(
+			new NutrientViewer.Geometry.Rect(box),
+			pageIndex,
+		);
+	};
+
+	const update = (preview: DropPreviewState | null) => {
+		layer.replaceChildren();
+		if (!preview) return;
+
+		const { pageIndex, boundingBox, guides } = preview;
+		const ghost = ownerDocument.createElement("div");
+		const rect = toClient(pageIndex, boundingBox);
+		applyStyle(ghost, {
+			position: "fixed",
+			left: `${rect.left}px`,
+			top: `${rect.top}px`,
+			width: `${rect.width}px`,
+			height: `${rect.height}px`,
+			border: `2px dashed ${GHOST_COLOR}`,
+			background: `${GHOST_COLOR}22`,
+			boxSizing: "border-box",
+		});
+		layer.appendChild(ghost);
+
+		const pageInfo = instance.pageInfoForIndex(pageIndex);
+		if (!pageInfo) return;
+
+		for (const guide of guides) {
+			const line = ownerDocument.createElement("div");
+			const lineRect = toClient(
+				pageIndex,
+				guide.orientation === "vertical"
+					? { left: guide.position, top: 0, width: 0, height: pageInfo.height }
+					: { left: 0, top: guide.position, width: pageInfo.width, height: 0 },
+			);
+			applyStyle(line, {
+				position: "fixed",
+				left: `${lineRect.left}px`,
+				top: `${lineRect.top}px`,
+				width: `${Math.max(lineRect.width, 1)}px`,
+				height: `${Math.max(lineRect.height, 1)}px`,
+				background: GUIDE_COLOR,
+			});
+			layer.appendChild(line);
+		}
+	};
+
+	return {
+		update,
+		destroy: () => layer.remove(),
+	};
+}
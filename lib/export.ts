@@ -0,0 +1,122 @@
+import type { Instance } from "@nutrient-sdk/viewer";
+import type { AuditEvent } from "@/lib/audit-trail";
+import { renderCertificate } from "@/lib/certificate-pdf";
+import { isSignatureField } from "@/lib/date-signed";
+import { getPlacedFields, type PlacedField } from "@/lib/placed-fields";
+import { hasSignature } from "@/lib/signing";
+
+export type ExportFormat = "pdf" | "flattened-pdf" | "instant-json" | "xfdf";
+
+export interface ExportOption {
+	format: ExportFormat;
+	label: string;
+}
+
+export const EXPORT_OPTIONS: ExportOption[] = [
+	{ format: "pdf", label: "PDF with form fields" },
+	{ format: "flattened-pdf", label: "Flattened PDF" },
+	{ format: "instant-json", label: "Instant JSON" },
+	{ format: "xfdf", label: "XFDF" },
+];
+
+// "contract.pdf" becomes "contract-flattened.pdf", "contract.json", ...
+export function exportFileName(
+	documentName: string,
+	format: ExportFormat,
+): string {
+	const base = documentName.replace(/\.pdf$/i, "") || "document";
+	switch (format) {
+		case "pdf":
+			return `${base}.pdf`;
+		case "flattened-pdf":
+			return `${base}-flattened.pdf`;
+		case "instant-json":
+			return `${base}.json`;
+		case "xfdf":
+			return `${base}.xfdf`;
+	}
+}
+
+async function findUnsignedSignatures(
+	instance: Instance,
+): Promise<PlacedField[]> {
+	const signatures = (await getPlacedFields(instance)).filter(isSignatureField);
+	const signed = await Promise.all(
+		signatures.map((field) => hasSignature(instance, field)),
+	);
+	return signatures.filter((_, index) => !signed[index]);
+}
+
+// The audit trail to append as a certificate page to the final, flattened PDF
+export interface CertificateOptions {
+	documentName: string;
+	events: AuditEvent[];
+}
+
+// Flatten the document and append the certificate of completion after the
+// last page, without changing the document open in the viewer
+async function exportWithCertificate(
+	instance: Instance,
+	{ documentName, events }: CertificateOptions,
+): Promise<ArrayBuffer> {
+	return instance.exportPDFWithOperations([
+		{ type: "flattenAnnotations" },
+		{
+			type: "importDocument",
+			afterPageIndex: instance.totalPageCount - 1,
+			document: renderCertificate(documentName, new Date(), events),
+		},
+	]);
+}
+
+// Export the document in the given format. Flattening bakes the fields into
+// the page, so it refuses while any signature field is still empty.
+export async function exportDocument(
+	instance: Instance,
+	format: ExportFormat,
+	certificate?: CertificateOptions,
+): Promise<Blob> {
+	switch (format) {
+		case "pdf":
+			return new Blob([await instance.exportPDF()], {
+				type: "application/pdf",
+			});
+		case "flattened-pdf": {
+			const unsigned = await findUnsignedSignatures(instance);
+			if (unsigned.length > 0) {
+				const pages = [...new Set(unsigned.map((f) => f.pageIndex + 1))];
+				throw new Error(
+					`${unsigned.length} signature field(s) still need signing (page ${pages.join(", ")})`,
+				);
+			}
+			const pdf =
+				certificate && certificate.events.length > 0
+					? await exportWithCertificate(instance, certificate)
+					: await instance.exportPDF({ flatten: true });
+			return new Blob([pdf], { type: "application/pdf" });
+		}
+		case "instant-json":
+			return new Blob(
+				[JSON.stringify(await instance.exportInstantJSON(), null, 2)],
+				{ type: "application/json" },
+			);
+		case "xfdf":
+			return new Blob([await instance.exportXFDF()], {
+				type: "application/vnd.adobe.xfdf",
+			});
+	}
+}
+
+export function downloadUrl(url: string, fileName: string): void {
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = fileName;
+	link.click();
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+	const url = URL.createObjectURL(blob);
+	downloadUrl(url, fileName);
+	// Give the browser a moment to start the download before revoking
+	setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,77 @@
+import type { Box } from "@/lib/drop-placement";
+
+// Pure geometry for lining up a selection of fields. Boxes are in page space
+// and the results keep the input order.
+
+export type Alignment =
+	| "left"
+	| "center"
+	| "right"
+	| "top"
+	| "middle"
+	| "bottom";
+
+export type Distribution = "horizontal" | "vertical";
+
+function alignBox(box: Box, alignment: Alignment, bounds: Box): Box {
+	const right = bounds.left + bounds.width;
+	const bottom = bounds.top + bounds.height;
+	switch (alignment) {
+		case "left":
+			return { ...box, left: bounds.left };
+		case "center":
+			return { ...box, left: (bounds.left + right - box.width) / 2 };
+		case "right":
+			return { ...box, left: right - box.width };
+		case "top":
+			return { ...box, top: bounds.top };
+		case "middle":
+			return { ...box, top: (bounds.top + bottom - box.height) / 2 };
+		case "bottom":
+			return { ...box, top: bottom - box.height };
+	}
+}
+
+// Align every box to the matching edge (or center) of the selection's bounds
+export function alignBoxes(boxes: Box[], alignment: Alignment): Box[] {
+	if (boxes.length < 2) return boxes;
+
+	const left = Math.min(...boxes.map((box) => box.left));
+	const top = Math.min(...boxes.map((box) => box.top));
+	const right = Math.max(...boxes.map((box) => box.left + box.width));
+	const bottom = Math.max(...boxes.map((box) => box.top + box.height));
+	const bounds = { left, top, width: right - left, height: bottom - top };
+
+	return boxes.map((box) => alignBox(box, alignment, bounds));
+}
+
+// Space the boxes evenly between the outermost two, keeping the gaps between
+// neighbours equal
+export function distributeBoxes(
+	boxes: Box[],
+	distribution: Distribution,
+): Box[] {
+	if (boxes.length < 3) return boxes;
+
+	const start = distribution === "horizontal" ? "left" : "top";
+	const size = distribution === "horizontal" ? "width" : "height";
+
+	const sorted = [...boxes].sort((a, b) => a[start] - b[start]);
+	const first = sorted[0];
+	const last = sorted[sorted.length - 1];
+	const occupied = sorted.reduce((total, box) => total + box[size], 0);
+	const gap =
+		(last[start] + last[size] - first[start] - occupied) / (sorted.length - 1);
+
+	const positions = new Map<Box, number>();
+	let position = first[start];
+	for (const box of sorted) {
+		positions.set(box, position);
+		position += box[size] + gap;
+	}
+
+	return boxes.map((box) => ({
+		...box,
+		[start]: positions.get(box) ?? box[start],
+	}));
+}
@@ -0,0 +1,203 @@
+import type { Instance } from "@nutrient-sdk/viewer";
+import { type Box, placeBox } from "@/lib/drop-placement";
+import { getFieldType } from "@/lib/field-types";
+
+// Text in the document that marks where a field belongs, like "Signature:"
+export interface FieldAnchor {
+	id: string;
+	pattern: string;
+	isRegex: boolean;
+	fieldType: string;
+	// Page points from the right edge and vertical center of the matched text
+	offset: { x: number; y: number };
+}
+
+// A field proposed by auto-detection, waiting to be accepted or rejected
+export interface FieldSuggestion {
+	id: string;
+	fieldType: string;
+	pageIndex: number;
+	boundingBox: Box;
+	// The text that matched the anchor
+	anchorText: string;
+}
+
+// Searched case-insensitively, so each label starts at a word boundary (no
+// "Countersignature:" or "Update:"). Signature and date labels end with their
+// colon. "Initials" is often printed without one, so its colon is optional
+// and a word boundary ends the label instead.
+export const DEFAULT_FIELD_ANCHORS: FieldAnchor[] = [
+	{
+		id: "signature",
+		pattern: "\\bSignature:",
+		isRegex: true,
+		fieldType: "Signature",
+		offset: { x: 6, y: 0 },
+	},
+	{
+		id: "date",
+		pattern: "\\bDate( Signed)?:",
+		isRegex: true,
+		fieldType: "DateSigned",
+		offset: { x: 6, y: 0 },
+	},
+	{
+		id: "initials",
+		pattern: "\\bInitials\\b:?",
+		isRegex: true,
+		fieldType: "Initials",
+		offset: { x: 6, y: 0 },
+	},
+];
+
+const SUGGESTION_OVERLAY_PREFIX = "field-suggestion-";
+const SUGGESTION_COLOR = "#8b5cf6";
+
+function overlaps(a: Box, b: Box): boolean {
+	return (
+		a.left < b.left + b.width &&
+		b.left < a.left + a.width &&
+		a.top < b.top + b.height &&
+		b.top < a.top + a.height
+	);
+}
+
+// Boxes of the form widgets already on a page, so anchors that already have
+// a field aren't proposed again
+async function widgetBoxes(
+	instance: Instance,
+	pageIndex: number,
+): Promise<Box[]> {
+	const annotations = await instance.getAnnotations(pageIndex);
+	return annotations
+		.filter((annotation) => "formFieldName" in annotation)
+		.map(({ boundingBox: { left, top, width, height } }) => ({
+			left,
+			top,
+			width,
+			height,
+		}))
+		.toArray();
+}
+
+// Search every page for the anchors and propose a field next to each match
+export async function detectFields(
+	instance: Instance,
+	anchors: FieldAnchor[],
+): Promise<FieldSuggestion[]> {
+	const { NutrientViewer } = window;
+	if (!NutrientViewer) return [];
+
+	const suggestions: FieldSuggestion[] = [];
+	const occupied = new Map<number, Box[]>();
+
+	for (const anchor of anchors) {
+		const definition = getFieldType(anchor.fieldType);
+		if (!definition || !anchor.pattern.trim()) continue;
+
+		const results = await instance.search(anchor.pattern, {
+			searchType: anchor.isRegex
+				? NutrientViewer.SearchType.REGEX
+				: NutrientViewer.SearchType.TEXT,
+			caseSensitive: false,
+		});
+
+		for (const result of results.toArray()) {
+			const { pageIndex } = result;
+			const match = result.rectsOnPage.last();
+			if (pageIndex === null || result.isAnnotation || !match) continue;
+
+			const pageInfo = instance.pageInfoForIndex(pageIndex);
+			const { boundingBox } = placeBox(
+				{
+					left: match.left + match.width + anchor.offset.x,
+					top:
+						match.top +
+						match.height / 2 -
+						definition.size.height / 2 +
+						anchor.offset.y,
+					...definition.size,
+				},
+				pageInfo ?? { width: Infinity, height: Infinity },
+				[],
+				{ snapGrid: null, smartGuides: false, guideThreshold: 0 },
+			);
+
+			if (!occupied.has(pageIndex)) {
+				occupied.set(pageIndex, await widgetBoxes(instance, pageIndex));
+			}
+			const taken = occupied.get(pageIndex) ?? [];
+			if (taken.some((box) => overlaps(box, boundingBox))) continue;
+			// Later anchors don't propose on top of earlier suggestions either
+			taken.push(boundingBox);
+
+			const start = result.locationInPreview ?? 0;
+			suggestions.push({
+				id: `${anchor.id}-${pageIndex}-${suggestions.length}`,
+				fieldType: anchor.fieldType,
+				pageIndex,
+				boundingBox,
+				anchorText: result.previewText.slice(
+					start,
+					start + (result.lengthInPreview ?? result.previewText.length),
+				),
+			});
+		}
+	}
+
+	return suggestions.sort(
+		(a, b) =>
+			a.pageIndex - b.pageIndex ||
+			a.boundingBox.top - b.boundingBox.top ||
+			a.boundingBox.left - b.boundingBox.left,
+	);
+}
+
+// Draw pending suggestions on their pages as dashed boxes
+export function showSuggestions(
+	instance: Instance,
+	suggestions: FieldSuggestion[],
+): void {
+	const { NutrientViewer } = window;
+	if (!NutrientViewer) return;
+
+	for (const suggestion of suggestions) {
+		const { boundingBox } = suggestion;
+		const ghost = document.createElement("div");
+		ghost.textContent = getFieldType(suggestion.fieldType)?.label ?? "";
+		Object.assign(ghost.style, {
+			// Overlay items are laid out at zoom 1 and scaled with the page
+			width: `${boundingBox.width}px`,
+			height: `${boundingBox.height}px`,
+			boxSizing: "border-box",
+			border: `2px dashed ${SUGGESTION_COLOR}`,
+			background: `${SUGGESTION_COLOR}22`,
+			color: SUGGESTION_COLOR,
+			font: "500 10px sans-serif",
+			padding: "2px",
+			overflow: "hidden",
+			pointerEvents: "none",
+		});
+
+		instance.setCustomOverlayItem(
+			new NutrientViewer.CustomOverlayItem({
+				id: SUGGESTION_OVERLAY_PREFIX + suggestion.id,
+				node: ghost,
+				pageIndex: suggestion.pageIndex,
+				position: new NutrientViewer.Geometry.Point({
+					x: boundingBox.left,
+					y: boundingBox.top,
+				}),
+			}),
+		);
+	}
+}
+
+export function hideSuggestions(
+	instance: Instance,
+	suggestions: FieldSuggestion[],
+): void {
+	for (const { id } of suggestions) {
+		instance.removeCustomOverlayItem(SUGGESTION_OVERLAY_PREFIX + id);
+	}
+}
@@ -0,0 +1,137 @@
+import type {
+	FormField,
+	Rect,
+	WidgetAnnotation,
+} from "@nutrient-sdk/viewer";
+import type { FieldTypeDefinition } from "@/lib/field-types";
+import {
+	fieldNameFor,
+	type Recipient,
+	recipientWidgetStyle,
+} from "@/lib/recipients";
+
+export type NutrientViewerModule = NonNullable<Window["NutrientViewer"]>;
+
+export interface FieldPlacement {
+	pageIndex: number;
+	// Bounding box of the whole field in page space
+	boundingBox: Rect;
+	// Recipient the field is prepared for, if any
+	recipient?: Recipient | null;
+}
+
+export interface FieldAnnotations {
+	widgets: WidgetAnnotation[];
+	formField: FormField;
+}
+
+// Split the field's bounding box into one row per option so every radio button
+// gets its own widget.
+function splitIntoRows(
+	NutrientViewer: NutrientViewerModule,
+	boundingBox: Rect,
+	count: number,
+): Rect[] {
+	const rowHeight = boundingBox.height / count;
+	return Array.from(
+		{ length: count },
+		(_, index) =>
+			new NutrientViewer.Geometry.Rect({
+				left: boundingBox.left,
+				top: boundingBox.top + rowHeight * index,
+				width: boundingBox.width,
+				height: Math.min(rowHeight, boundingBox.width),
+			}),
+	);
+}
+
+// Build the widget annotation(s) and the paired form field for a field type.
+// Pass the result to `instance.create([...widgets, formField])` so both are
+// created together.
+export function buildFieldAnnotations(
+	NutrientViewer: NutrientViewerModule,
+	definition: FieldTypeDefinition,
+	{ pageIndex, boundingBox, recipient }: FieldPlacement,
+): FieldAnnotations {
+	const { FormFields, FormOption } = NutrientViewer;
+
+	// Generate a unique ID that will be used for both the widget and form field
+	const uniqueId = NutrientViewer.generateInstantId();
+	const formFieldName = fieldNameFor(definition.type, uniqueId, recipient);
+	const options = definition.options ?? [];
+
+	const widgetBoxes =
+		definition.formFieldClass === "RadioButtonFormField" && options.length > 1
+			? splitIntoRows(NutrientViewer, boundingBox, options.length)
+			: [boundingBox];
+
+	const widgets = widgetBoxes.map(
+		(box, index) =>
+			new NutrientViewer.Annotations.WidgetAnnotation({
+				boundingBox: box,
+				formFieldName,
+				// The first widget shares its ID with the field, as the drop handler always did
+				id: index === 0 ? uniqueId : NutrientViewer.generateInstantId(),
+				pageIndex,
+				name: definition.label,
+				customData: {
+					fieldType: definition.type,
+					recipientId: recipient?.id ?? null,
+				},
+				...(recipient ? recipientWidgetStyle(NutrientViewer, recipient) : {}),
+			}),
+	);
+
+	const formOptions = NutrientViewer.Immutable.List(
+		options.map((option) => new FormOption({ label: option, value: option })),
+	);
+	const defaultValues = NutrientViewer.Immutable.List(
+		definition.defaultValue ? [definition.defaultValue] : [],
+	);
+
+	const common = {
+		annotationIds: NutrientViewer.Immutable.List(
+			widgets.map((widget) => widget.id),
+		),
+		name: formFieldName,
+		label: definition.label,
+	};
+
+	let formField: FormField;
+	switch (definition.formFieldClass) {
+		case "SignatureFormField":
+			formField = new FormFields.SignatureFormField(common);
+			break;
+		case "TextFormField":
+			formField = new FormFields.TextFormField({
+				...common,
+				value: definition.defaultValue ?? "",
+				defaultValue: definition.defaultValue ?? "",
+			});
+			break;
+		case "CheckBoxFormField":
+			formField = new FormFields.CheckBoxFormField({
+				...common,
+				options: formOptions,
+				defaultValues,
+			});
+			break;
+		case "RadioButtonFormField":
+			formField = new FormFields.RadioButtonFormField({
+				...common,
+				options: formOptions,
+				defaultValue: definition.defaultValue ?? "",
+			});
+			break;
+		case "ComboBoxFormField":
+			formField = new FormFields.ComboBoxFormField({
+				...common,
+				options: formOptions,
+				values: defaultValues,
+				defaultValues,
+			});
+			break;
+	}
+
+	return { widgets, formField };
+}
@@ -0,0 +1,109 @@
+import type { Instance, WidgetAnnotation } from "@nutrient-sdk/viewer";
+import type { Box } from "@/lib/drop-placement";
+import {
+	type Alignment,
+	alignBoxes,
+	type Distribution,
+	distributeBoxes,
+} from "@/lib/field-align";
+import {
+	fieldBounds,
+	getPlacedFields,
+	type PlacedField,
+} from "@/lib/placed-fields";
+
+// The placed fields with at least one selected widget
+export async function getSelectedFields(
+	instance: Instance,
+): Promise<PlacedField[]> {
+	const selected = instance.getSelectedAnnotations();
+	if (!selected || selected.size === 0) return [];
+
+	const ids = new Set(selected.map(({ id }) => id).toArray());
+	const placedFields = await getPlacedFields(instance);
+	return placedFields.filter(({ widgets }) =>
+		widgets.some(({ id }) => ids.has(id)),
+	);
+}
+
+// Select the given widgets in the viewer, replacing the current selection
+export function selectWidgets(
+	instance: Instance,
+	widgets: WidgetAnnotation[],
+): void {
+	const { NutrientViewer } = window;
+	if (!NutrientViewer) return;
+
+	instance.setSelectedAnnotations(
+		NutrientViewer.Immutable.List(widgets.map(({ id }) => id)),
+	);
+}
+
+// Move each field so its bounds land on the matching box, keeping the layout
+// of its widgets
+async function moveFields(
+	instance: Instance,
+	fields: PlacedField[],
+	boxes: Box[],
+): Promise<void> {
+	const changes = fields.flatMap((field, index) => {
+		const from = fieldBounds(field);
+		const dx = boxes[index].left - from.left;
+		const dy = boxes[index].top - from.top;
+		if (dx === 0 && dy === 0) return [];
+
+		return field.widgets.map((widget) =>
+			widget.set(
+				"boundingBox",
+				widget.boundingBox.merge({
+					left: widget.boundingBox.left + dx,
+					top: widget.boundingBox.top + dy,
+				}),
+			),
+		);
+	});
+	if (changes.length > 0) {
+		await instance.update(changes);
+	}
+}
+
+// Run a layout function over the fields of each page separately, since boxes
+// on different pages don't share a coordinate space
+async function arrangePerPage(
+	instance: Instance,
+	fields: PlacedField[],
+	arrange: (boxes: Box[]) => Box[],
+): Promise<void> {
+	const pages = new Map<number, PlacedField[]>();
+	for (const field of fields) {
+		pages.set(field.pageIndex, [...(pages.get(field.pageIndex) ?? []), field]);
+	}
+
+	const moved: PlacedField[] = [];
+	const boxes: Box[] = [];
+	for (const pageFields of pages.values()) {
+		moved.push(...pageFields);
+		boxes.push(...arrange(pageFields.map(fieldBounds)));
+	}
+	await moveFields(instance, moved, boxes);
+}
+
+export function alignFields(
+	instance: Instance,
+	fields: PlacedField[],
+	alignment: Alignment,
+): Promise<void> {
+	return arrangePerPage(instance, fields, (boxes) =>
+		alignBoxes(boxes, alignment),
+	);
+}
+
+export function distributeFields(
+	instance: Instance,
+	fields: PlacedField[],
+	distribution: Distribution,
+): Promise<void> {
+	return arrangePerPage(instance, fields, (boxes) =>
+		distributeBoxes(boxes, distribution),
+	);
+}
@@ -0,0 +1,157 @@
+import type { Instance, WidgetAnnotation } from "@nutrient-sdk/viewer";
+import { placeBox } from "@/lib/drop-placement";
+import type { PlacedField } from "@/lib/placed-fields";
+import type { Recipient } from "@/lib/recipients";
+import {
+	buildTemplateField,
+	type TemplateField,
+	toTemplateField,
+} from "@/lib/templates";
+
+// How far, in page points, a paste onto the source page is shifted so the
+// copies don't hide the originals
+const PASTE_OFFSET = 10;
+
+// Describe fields for the clipboard. Copies take their place in the tab order
+// by position, so the hand-set order isn't carried over.
+export function copyFields(fields: PlacedField[]): TemplateField[] {
+	return fields.map((field) => ({
+		...toTemplateField(field),
+		tabOrder: undefined,
+	}));
+}
+
+export interface CopyResult {
+	widgets: WidgetAnnotation[];
+	// The copies as placed, so pasting them again cascades
+	fields: TemplateField[];
+}
+
+// Create copies of the fields on a page, each with fresh IDs and its own form
+// field. Boxes are kept inside the page.
+async function createCopies(
+	instance: Instance,
+	fields: TemplateField[],
+	pageIndex: number,
+	recipients: Recipient[],
+	offset: number,
+): Promise<CopyResult> {
+	const { NutrientViewer } = window;
+	const pageInfo = instance.pageInfoForIndex(pageIndex);
+	if (!NutrientViewer || !pageInfo) return { widgets: [], fields: [] };
+
+	const changes = [];
+	const result: CopyResult = { widgets: [], fields: [] };
+	for (const field of fields) {
+		const { boundingBox } = placeBox(
+			{
+				...field.boundingBox,
+				left: field.boundingBox.left + offset,
+				top: field.boundingBox.top + offset,
+			},
+			pageInfo,
+			[],
+			{ snapGrid: null, smartGuides: false, guideThreshold: 0 },
+		);
+		const copy = { ...field, pageIndex, boundingBox };
+		const built = buildTemplateField(NutrientViewer, copy, recipients);
+		if (!built) continue;
+
+		changes.push(...built.widgets, built.formField);
+		result.widgets.push(...built.widgets);
+		result.fields.push(copy);
+	}
+
+	if (changes.length > 0) {
+		await instance.create(changes);
+	}
+	return result;
+}
+
+// Paste copied fields onto a page. Pasting onto the page they came from
+// shifts them down and to the right.
+export function pasteFields(
+	instance: Instance,
+	copied: TemplateField[],
+	pageIndex: number,
+	recipients: Recipient[],
+): Promise<CopyResult> {
+	const samePage = copied.some((field) => field.pageIndex === pageIndex);
+	return createCopies(
+		instance,
+		copied,
+		pageIndex,
+		recipients,
+		samePage ? PASTE_OFFSET : 0,
+	);
+}
+
+// Copy fields to the same position on other pages, e.g. initials on every
+// page. Pages the fields are already on are skipped.
+export async function duplicateToPages(
+	instance: Instance,
+	fields: PlacedField[],
+	pageIndexes: number[],
+	recipients: Recipient[],
+): Promise<WidgetAnnotation[]> {
+	const copied = copyFields(fields);
+	const widgets: WidgetAnnotation[] = [];
+	for (const pageIndex of pageIndexes) {
+		const onOtherPages = copied.filter(
+			(field) => field.pageIndex !== pageIndex,
+		);
+		const result = await createCopies(
+			instance,
+			onOtherPages,
+			pageIndex,
+			recipients,
+			0,
+		);
+		widgets.push(...result.widgets);
+	}
+	return widgets;
+}
+
+// Parse a page range like "1-3, 5" (1-based, as shown to the user) into page
+// indexes. Returns null when the range is malformed or outside the document.
+export function parsePageRange(
+	range: string,
+	pageCount: number,
+): number[] | null {
+	const pageIndexes = new Set<number>();
+	for (const part of range.split(",")) {
+		const match = /^\s*(\d+)\s*(?:-\s*(\d+)\s*)?$/.exec(part);
+		if (!match) return null;
+
+		const first = Number(match[1]);
+		const last = match[2] ? Number(match[2]) : first;
+		if (first < 1 || last < first || last > pageCount) return null;
+		for (let page = first; page <= last; page++) {
+			pageIndexes.add(page - 1);
+		}
+	}
+	return Array.from(pageIndexes).sort((a, b) => a - b);
+}
+
+export function clipboardShortcut(
+	event: KeyboardEvent,
+): "copy" | "paste" | null {
+	if (!(event.ctrlKey || event.metaKey) || event.altKey || event.shiftKey) {
+		return null;
+	}
+
+	// The viewer may render in a shadow root, where `target` is retargeted
+	const target = event.composedPath()[0] as HTMLElement | undefined;
+	if (
+		target &&
+		(target.isContentEditable ||
+			["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+	) {
+		return null;
+	}
+
+	const key = event.key.toLowerCase();
+	if (key === "c") return "copy";
+	if (key === "v") return "paste";
+	return null;
+}
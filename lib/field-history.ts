@@ -0,0 +1,125 @@
+import type { Instance } from "@nutrient-sdk/viewer";
+import { remoteChangeAuthor } from "@/lib/collaboration";
+import { type PlacedField, watchPlacedFields } from "@/lib/placed-fields";
+
+// One undoable step. Fields missing from `before` were created, fields
+// missing from `after` were deleted, and the rest were modified.
+interface HistoryEntry {
+	before: PlacedField[];
+	after: PlacedField[];
+}
+
+export interface FieldHistoryState {
+	canUndo: boolean;
+	canRedo: boolean;
+}
+
+export interface FieldHistory {
+	undo: () => Promise<void>;
+	redo: () => Promise<void>;
+	destroy: () => void;
+}
+
+// Undo/redo for fields placed through the form-building flow. Each burst of
+// changes to the placed fields is one step, so drops, moves, resizes,
+// property edits and deletions made anywhere are all recorded. A widget and
+// its form field are always restored together.
+export function createFieldHistory(
+	instance: Instance,
+	onChange: (state: FieldHistoryState) => void,
+	onError: (error: Error) => void,
+): FieldHistory {
+	const undoStack: HistoryEntry[] = [];
+	const redoStack: HistoryEntry[] = [];
+
+	const notify = () =>
+		onChange({
+			canUndo: undoStack.length > 0,
+			canRedo: redoStack.length > 0,
+		});
+
+	// Changes made by another editor are theirs to undo, so they only move
+	// the baseline the next local step is diffed against
+	const watcher = watchPlacedFields(
+		instance,
+		() => remoteChangeAuthor(instance) !== null,
+		(changes, remote) => {
+			if (remote) return;
+			undoStack.push({
+				before: changes.flatMap(({ before }) => (before ? [before] : [])),
+				after: changes.flatMap(({ after }) => (after ? [after] : [])),
+			});
+			redoStack.length = 0;
+			notify();
+		},
+		onError,
+	);
+
+	// Replace the fields in `from` with the ones in `to`. Fields are deleted
+	// and recreated with their original ids, so widgets stay paired with their
+	// form fields even across renames.
+	const restore = async (from: PlacedField[], to: PlacedField[]) => {
+		const current = watcher.current();
+		const existing = from.filter(({ formField }) => current.has(formField.id));
+		if (existing.length > 0) {
+			await instance.delete(
+				existing.flatMap(({ formField, widgets }) => [...widgets, formField]),
+			);
+		}
+		if (to.length > 0) {
+			await instance.create(
+				to.flatMap(({ formField, widgets }) => [...widgets, formField]),
+			);
+		}
+	};
+
+	const step = (
+		source: HistoryEntry[],
+		target: HistoryEntry[],
+		undo: boolean,
+	) =>
+		watcher.apply(async () => {
+			const entry = source.pop();
+			if (!entry) return;
+
+			try {
+				await (undo
+					? restore(entry.after, entry.before)
+					: restore(entry.before, entry.after));
+				target.push(entry);
+			} catch (error) {
+				// Keep the step so it can be tried again
+				source.push(entry);
+				throw error;
+			} finally {
+				notify();
+			}
+		});
+
+	return {
+		undo: () => step(undoStack, redoStack, true),
+		redo: () => step(redoStack, undoStack, false),
+		destroy: watcher.destroy,
+	};
+}
+
+// Ctrl/Cmd+Z undoes, Shift+Ctrl/Cmd+Z (or Ctrl+Y) redoes. Text inputs keep
+// their own undo.
+export function historyShortcut(event: KeyboardEvent): "undo" | "redo" | null {
+	if (!(event.ctrlKey || event.metaKey) || event.altKey) return null;
+
+	// The viewer may render in a shadow root, where `target` is retargeted
+	const target = event.composedPath()[0] as HTMLElement | undefined;
+	if (
+		target &&
+		(target.isContentEditable ||
+			["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+	) {
+		return null;
+	}
+
+	const key = event.key.toLowerCase();
+	if (key === "z") return event.shiftKey ? "redo" : "undo";
+	if (key === "y" && !event.shiftKey) return "redo";
+	return null;
+}
@@ -0,0 +1,166 @@
+import type {
+	FormField,
+	Instance,
+	WidgetAnnotation,
+} from "@nutrient-sdk/viewer";
+import type { Box } from "@/lib/drop-placement";
+
+// Editable properties of a placed field, as shown in the inspector
+export interface FieldProperties {
+	name: string;
+	required: boolean;
+	readOnly: boolean;
+	// Shown as the field's tooltip (the PDF alternate field name)
+	tooltip: string;
+	// null for fields without a single default value, like signatures
+	defaultValue: string | null;
+	// null means the SDK sizes the text automatically
+	fontSize: number | null;
+	// Geometry of the widget in page space
+	boundingBox: Box;
+}
+
+export type FieldPropertyErrors = Partial<
+	Record<keyof FieldProperties, string>
+>;
+
+// Text, dropdown and radio fields have a single default value
+function readDefaultValue(formField: FormField): string | null {
+	const { NutrientViewer } = window;
+	if (!NutrientViewer) return null;
+
+	const { ComboBoxFormField, RadioButtonFormField, TextFormField } =
+		NutrientViewer.FormFields;
+	if (formField instanceof ComboBoxFormField) {
+		return formField.defaultValues.first() ?? "";
+	}
+	if (
+		formField instanceof TextFormField ||
+		formField instanceof RadioButtonFormField
+	) {
+		return formField.defaultValue ?? "";
+	}
+	return null;
+}
+
+export function readFieldProperties(
+	widget: WidgetAnnotation,
+	formField: FormField,
+): FieldProperties {
+	const { left, top, width, height } = widget.boundingBox;
+	return {
+		name: formField.name,
+		required: formField.required,
+		readOnly: formField.readOnly,
+		tooltip: formField.label ?? "",
+		defaultValue: readDefaultValue(formField),
+		fontSize: typeof widget.fontSize === "number" ? widget.fontSize : null,
+		boundingBox: { left, top, width, height },
+	};
+}
+
+export function validateFieldProperties(
+	properties: FieldProperties,
+	{
+		currentName,
+		existingNames,
+		pageSize,
+	}: {
+		currentName: string;
+		existingNames: Set<string>;
+		pageSize: { width: number; height: number } | null;
+	},
+): FieldPropertyErrors {
+	const errors: FieldPropertyErrors = {};
+	const name = properties.name.trim();
+
+	if (!name) {
+		errors.name = "Name is required";
+	} else if (name !== currentName && existingNames.has(name)) {
+		errors.name = `A field named "${name}" already exists`;
+	}
+
+	if (
+		properties.fontSize !== null &&
+		!(properties.fontSize > 0 && properties.fontSize <= 144)
+	) {
+		errors.fontSize = "Font size must be between 1 and 144";
+	}
+
+	const { left, top, width, height } = properties.boundingBox;
+	if (![left, top, width, height].every(Number.isFinite)) {
+		errors.boundingBox = "Position and size must be numbers";
+	} else if (width <= 0 || height <= 0) {
+		errors.boundingBox = "Width and height must be positive";
+	} else if (
+		left < 0 ||
+		top < 0 ||
+		(pageSize &&
+			(left + width > pageSize.width || top + height > pageSize.height))
+	) {
+		errors.boundingBox = "The field must stay inside the page";
+	}
+
+	return errors;
+}
+
+// Apply edited properties to a field. The widget(s) and the form field are
+// updated together so they stay linked by name.
+export async function applyFieldProperties(
+	instance: Instance,
+	widget: WidgetAnnotation,
+	formField: FormField,
+	properties: FieldProperties,
+): Promise<void> {
+	const { NutrientViewer } = window;
+	if (!NutrientViewer) return;
+
+	const name = properties.name.trim();
+	const renamed = name !== formField.name;
+
+	// Renaming has to reach every widget of the field, e.g. all radio buttons
+	const siblings = renamed
+		? (await instance.getAnnotations(widget.pageIndex))
+				.filter(
+					(annotation): annotation is WidgetAnnotation =>
+						annotation.id !== widget.id &&
+						formField.annotationIds.includes(annotation.id),
+				)
+				.map((sibling) => sibling.set("formFieldName", name))
+				.toArray()
+		: [];
+
+	const updatedWidget = widget
+		.set("formFieldName", name)
+		.set("fontSize", properties.fontSize)
+		.set(
+			"boundingBox",
+			new NutrientViewer.Geometry.Rect(properties.boundingBox),
+		);
+
+	let updatedFormField = formField.merge({
+		name,
+		required: properties.required,
+		readOnly: properties.readOnly,
+		label: properties.tooltip,
+	});
+	if (properties.defaultValue !== null) {
+		updatedFormField =
+			formField instanceof NutrientViewer.FormFields.ComboBoxFormField
+				? updatedFormField.set(
+						"defaultValues",
+						NutrientViewer.Immutable.List([properties.defaultValue]),
+					)
+				: updatedFormField.set("defaultValue", properties.defaultValue);
+	}
+
+	await instance.update([updatedWidget, ...siblings, updatedFormField]);
+
+	// Show the new default in text fields right away
+	if (
+		properties.defaultValue !== null &&
+		formField instanceof NutrientViewer.FormFields.TextFormField
+	) {
+		await instance.setFormFieldValues({ [name]: properties.defaultValue });
+	}
+}
@@ -0,0 +1,184 @@
+import Image from "next/image";
+import type { ReactNode } from "react";
+
+// Form field classes the drop handler knows how to build. ComboBoxFormField is
+// the dropdown flavour of ChoiceFormField.
+export type FormFieldClass =
+	| "SignatureFormField"
+	| "TextFormField"
+	| "CheckBoxFormField"
+	| "RadioButtonFormField"
+	| "ComboBoxFormField";
+
+export interface FieldSize {
+	width: number;
+	height: number;
+}
+
+export interface FieldTypeDefinition {
+	// Unique key, also used as the drag and drop `text` payload
+	type: string;
+	label: string;
+	icon: ReactNode;
+	// Size of the field in page points
+	size: FieldSize;
+	// Point of the field, from its top-left corner in page points, that lands
+	// under the cursor. Defaults to the center of the field.
+	dropOffset?: { x: number; y: number };
+	formFieldClass: FormFieldClass;
+	defaultValue?: string;
+	// Choices for checkbox, radio group and dropdown fields
+	options?: string[];
+}
+
+function StrokeIcon({ label, path }: { label: string; path: string }) {
+	return (
+		<svg
+			className="w-5 h-5 text-gray-600"
+			fill="none"
+			stroke="currentColor"
+			viewBox="0 0 24 24"
+			xmlns="http://www.w3.org/2000/svg"
+			aria-label={label}
+		>
+			<title>{label}</title>
+			<path
+				strokeLinecap="round"
+				strokeLinejoin="round"
+				strokeWidth={2}
+				d={path}
+			/>
+		</svg>
+	);
+}
+
+const builtInFieldTypes: FieldTypeDefinition[] = [
+	{
+		type: "Signature",
+		label: "Signature",
+		icon: <Image src="/file.svg" alt="Signature" width={24} height={24} />,
+		size: { width: 225, height: 55 },
+		formFieldClass: "SignatureFormField",
+	},
+	{
+		type: "DateSigned",
+		label: "Date Signed",
+		icon: (
+			<StrokeIcon
+				label="Calendar icon"
+				path="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
+			/>
+		),
+		size: { width: 225, height: 55 },
+		formFieldClass: "TextFormField",
+		defaultValue: "TBD: Date Signed",
+	},
+	{
+		type: "Initials",
+		label: "Initials",
+		icon: (
+			<StrokeIcon
+				label="Pen icon"
+				path="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z"
+			/>
+		),
+		size: { width: 50, height: 50 },
+		formFieldClass: "SignatureFormField",
+	},
+	{
+		type: "FreeText",
+		label: "Free Text",
+		icon: <StrokeIcon label="Text icon" path="M4 6h16M4 12h16M4 18h7" />,
+		size: { width: 225, height: 35 },
+		formFieldClass: "TextFormField",
+	},
+	{
+		type: "Name",
+		label: "Name",
+		icon: (
+			<StrokeIcon
+				label="Person icon"
+				path="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z"
+			/>
+		),
+		size: { width: 225, height: 35 },
+		formFieldClass: "TextFormField",
+	},
+	{
+		type: "Email",
+		label: "Email",
+		icon: (
+			<StrokeIcon
+				label="Envelope icon"
+				path="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z"
+			/>
+		),
+		size: { width: 225, height: 35 },
+		formFieldClass: "TextFormField",
+	},
+	{
+		type: "Company",
+		label: "Company",
+		icon: (
+			<StrokeIcon
+				label="Building icon"
+				path="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4"
+			/>
+		),
+		size: { width: 225, height: 35 },
+		formFieldClass: "TextFormField",
+	},
+	{
+		type: "Checkbox",
+		label: "Checkbox",
+		icon: (
+			<StrokeIcon
+				label="Checkbox icon"
+				path="M9 12l2 2 4-4M5 4h14a1 1 0 011 1v14a1 1 0 01-1 1H5a1 1 0 01-1-1V5a1 1 0 011-1z"
+			/>
+		),
+		size: { width: 20, height: 20 },
+		formFieldClass: "CheckBoxFormField",
+		options: ["Yes"],
+	},
+	{
+		type: "RadioGroup",
+		label: "Radio Group",
+		icon: (
+			<StrokeIcon
+				label="Radio icon"
+				path="M12 21a9 9 0 100-18 9 9 0 000 18zM12 15a3 3 0 100-6 3 3 0 000 6z"
+			/>
+		),
+		size: { width: 20, height: 68 },
+		formFieldClass: "RadioButtonFormField",
+		options: ["Option 1", "Option 2", "Option 3"],
+	},
+	{
+		type: "Dropdown",
+		label: "Dropdown",
+		icon: <StrokeIcon label="Chevron icon" path="M19 9l-7 7-7-7" />,
+		size: { width: 225, height: 35 },
+		formFieldClass: "ComboBoxFormField",
+		options: ["Option 1", "Option 2", "Option 3"],
+	},
+];
+
+const fieldTypeRegistry = new Map<string, FieldTypeDefinition>(
+	builtInFieldTypes.map((definition) => [definition.type, definition]),
+);
+
+// Register an additional field type, or replace a built-in one with the same key.
+// Call this before the palette renders so the new type shows up in the sidebar.
+export function registerFieldType(definition: FieldTypeDefinition): void {
+	fieldTypeRegistry.set(definition.type, definition);
+}
+
+export function getFieldType(type: string): FieldTypeDefinition | undefined {
+	return fieldTypeRegistry.get(type);
+}
+
+// Registered field types in registration order
+export function getFieldTypes(): FieldTypeDefinition[] {
+	return Array.from(fieldTypeRegistry.values());
+}
@@ -0,0 +1,135 @@
+import type { Instance } from "@nutrient-sdk/viewer";
+import { type Box, placeBox } from "@/lib/drop-placement";
+import type { PagePoint } from "@/lib/pointer-placement";
+
+// Images dropped from the desktop, such as a logo or a scanned signature,
+// become image annotations centered on the drop point
+
+export const IMAGE_TYPES = ["image/png", "image/jpeg", "image/svg+xml"];
+
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Largest box, in page points, a dropped image is scaled down to fit
+export const MAX_IMAGE_BOX = { width: 200, height: 200 };
+
+// The SDK only embeds PNG and JPEG, so SVGs are drawn to a PNG at this many
+// pixels per page point to stay sharp when zoomed in
+const SVG_RASTER_SCALE = 3;
+
+export function isImageFile(file: File): boolean {
+	return file.type.startsWith("image/");
+}
+
+export function getDroppedImage(
+	event: DragEvent | React.DragEvent,
+): File | null {
+	const files = Array.from(event.dataTransfer?.files ?? []);
+	return files.find(isImageFile) ?? null;
+}
+
+// Why an image can't be placed, or null if it can
+export function checkImageFile(file: File): string | null {
+	if (!IMAGE_TYPES.includes(file.type)) {
+		return `${file.name} isn't a PNG, JPEG or SVG image`;
+	}
+	if (file.size > MAX_IMAGE_BYTES) {
+		return `${file.name} is larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB`;
+	}
+	return null;
+}
+
+export function loadImage(blob: Blob): Promise<HTMLImageElement> {
+	const url = URL.createObjectURL(blob);
+	return new Promise<HTMLImageElement>((resolve, reject) => {
+		const image = new Image();
+		image.onload = () => resolve(image);
+		image.onerror = () => reject(new Error("The image could not be read"));
+		image.src = url;
+	}).finally(() => URL.revokeObjectURL(url));
+}
+
+// Scale the image down, keeping its aspect ratio, until it fits the box.
+// Pixels count as page points, so small images keep their size.
+export function fitImageSize(
+	width: number,
+	height: number,
+	max = MAX_IMAGE_BOX,
+): { width: number; height: number } {
+	// SVGs without a width and height have no natural size
+	if (!width || !height) return { ...max };
+
+	const scale = Math.min(max.width / width, max.height / height, 1);
+	return { width: width * scale, height: height * scale };
+}
+
+async function rasterize(
+	image: HTMLImageElement,
+	size: { width: number; height: number },
+): Promise<Blob> {
+	const canvas = document.createElement("canvas");
+	canvas.width = Math.round(size.width * SVG_RASTER_SCALE);
+	canvas.height = Math.round(size.height * SVG_RASTER_SCALE);
+	canvas.getContext("2d")?.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+	return new Promise((resolve, reject) =>
+		canvas.toBlob(
+			(blob) =>
+				blob ? resolve(blob) : reject(new Error("The SVG could not be drawn")),
+			"image/png",
+		),
+	);
+}
+
+// Centered on the point, moved inside the page if it hangs over an edge
+function imageBox(
+	instance: Instance,
+	point: PagePoint,
+	size: { width: number; height: number },
+): Box {
+	const page = instance.pageInfoForIndex(point.pageIndex);
+	const proposed = {
+		left: point.x - size.width / 2,
+		top: point.y - size.height / 2,
+		...size,
+	};
+	if (!page) return proposed;
+
+	return placeBox(proposed, page, [], {
+		snapGrid: null,
+		smartGuides: false,
+		guideThreshold: 0,
+	}).boundingBox;
+}
+
+// Add the image to the page at the point. Throws with a message for the user
+// when the file can't be used.
+export async function createImageAnnotation(
+	instance: Instance,
+	file: File,
+	point: PagePoint,
+): Promise<void> {
+	const { NutrientViewer } = window;
+	if (!NutrientViewer) return;
+
+	const problem = checkImageFile(file);
+	if (problem) throw new Error(problem);
+
+	const image = await loadImage(file);
+	const size = fitImageSize(image.naturalWidth, image.naturalHeight);
+	const isSvg = file.type === "image/svg+xml";
+	const data = isSvg ? await rasterize(image, size) : file;
+
+	const imageAttachmentId = await instance.createAttachment(data);
+	await instance.create(
+		new NutrientViewer.Annotations.ImageAnnotation({
+			pageIndex: point.pageIndex,
+			contentType: isSvg ? "image/png" : file.type,
+			imageAttachmentId,
+			fileName: file.name,
+			description: file.name,
+			boundingBox: new NutrientViewer.Geometry.Rect(
+				imageBox(instance, point, size),
+			),
+		}),
+	);
+}
@@ -0,0 +1,146 @@
+import { randomUUID } from "node:crypto";
+import { createReadStream } from "node:fs";
+import {
+	appendFile,
+	mkdir,
+	readdir,
+	readFile,
+	rm,
+	stat,
+	writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+import { Readable } from "node:stream";
+import {
+	type ZipEntry,
+	type ZipRecord,
+	zipDirectory,
+	zipEntry,
+} from "@/lib/zip";
+
+// Server-only: a mail merge in progress is kept in data/mail-merge/<id> as
+// the zip entries written so far and an index of them, so documents can be
+// uploaded in batches and the archive is never held in memory
+const MERGES_DIR = path.join(process.cwd(), "data", "mail-merge");
+
+const ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+// Merges that were never downloaded are cleaned up after this long
+const ABANDONED_AFTER_MS = 60 * 60 * 1000;
+
+// Merges a batch is being added to right now
+const lockedMerges = new Set<string>();
+
+interface MergeIndex {
+	name: string;
+	records: ZipRecord[];
+	// Bytes written to the entries file
+	size: number;
+}
+
+function mergeDir(id: string): string {
+	return path.join(MERGES_DIR, id);
+}
+
+function indexPath(id: string): string {
+	return path.join(mergeDir(id), "index.json");
+}
+
+function entriesPath(id: string): string {
+	return path.join(mergeDir(id), "entries.bin");
+}
+
+async function readIndex(id: string): Promise<MergeIndex | null> {
+	if (!ID_PATTERN.test(id)) return null;
+	try {
+		return JSON.parse(await readFile(indexPath(id), "utf8"));
+	} catch {
+		return null;
+	}
+}
+
+async function removeAbandonedMerges(): Promise<void> {
+	let ids: string[];
+	try {
+		ids = await readdir(MERGES_DIR);
+	} catch {
+		return;
+	}
+	const cutoff = Date.now() - ABANDONED_AFTER_MS;
+	for (const id of ids) {
+		try {
+			const { mtimeMs } = await stat(mergeDir(id));
+			if (mtimeMs < cutoff) await rm(mergeDir(id), { recursive: true });
+		} catch {
+			// Downloaded or cleaned up by another request in the meantime
+		}
+	}
+}
+
+export async function createMerge(name: string): Promise<string> {
+	await removeAbandonedMerges();
+
+	const id = randomUUID();
+	const index: MergeIndex = { name, records: [], size: 0 };
+	await mkdir(mergeDir(id), { recursive: true });
+	await writeFile(entriesPath(id), new Uint8Array());
+	await writeFile(indexPath(id), JSON.stringify(index));
+	return id;
+}
+
+// Claims a merge for adding a batch, so batches are checked and appended one
+// at a time. Returns the function that releases it, or null while another
+// batch holds it.
+export function lockMerge(id: string): (() => void) | null {
+	if (lockedMerges.has(id)) return null;
+	lockedMerges.add(id);
+	return () => lockedMerges.delete(id);
+}
+
+// Names of the entries written so far, or null for an unknown merge
+export async function mergeEntryNames(id: string): Promise<string[] | null> {
+	const index = await readIndex(id);
+	return index ? index.records.map(({ name }) => name) : null;
+}
+
+// Compresses and writes the entries. The caller must hold the merge's lock.
+export async function appendToMerge(
+	id: string,
+	entries: ZipEntry[],
+): Promise<boolean> {
+	const index = await readIndex(id);
+	if (!index) return false;
+
+	for (const entry of entries) {
+		const { data, record } = zipEntry(entry, index.size);
+		await appendFile(entriesPath(id), data);
+		index.records.push(record);
+		index.size += data.length;
+	}
+	await writeFile(indexPath(id), JSON.stringify(index));
+	return true;
+}
+
+// Streams the finished archive and removes the merge once it has been read
+export async function finishMerge(
+	id: string,
+): Promise<{ name: string; archive: ReadableStream<Uint8Array> } | null> {
+	const index = await readIndex(id);
+	if (!index) return null;
+
+	const directory = zipDirectory(index.records, index.size);
+	async function* archive() {
+		try {
+			yield* createReadStream(entriesPath(id));
+			yield directory;
+		} finally {
+			await rm(mergeDir(id), { recursive: true, force: true });
+		}
+	}
+	return {
+		name: index.name,
+		archive: Readable.toWeb(
+			Readable.from(archive()),
+		) as ReadableStream<Uint8Array>,
+	};
+}
@@ -0,0 +1,300 @@
+import type { Instance } from "@nutrient-sdk/viewer";
+import type { BindableField } from "@/lib/data-binding";
+import { nutrientBaseUrl } from "@/lib/nutrient-assets";
+
+// Mail merge: one filled copy of the prepared document per row of a CSV or
+// JSON dataset. The SDK fills the copies in a headless instance in the
+// browser; /api/mail-merge packs them into a zip.
+
+export interface Dataset {
+	name: string;
+	// Column keys in the order they first appear
+	columns: string[];
+	rows: Record<string, string>[];
+}
+
+// A row that can't be filled as bound, or a binding no row can fill
+export interface MergeIssue {
+	// 1-based data row, or null for problems with the bindings themselves
+	row: number | null;
+	fieldName: string | null;
+	message: string;
+}
+
+export interface MergedDocument {
+	fileName: string;
+	data: Blob;
+}
+
+export const MAX_DATASET_ROWS = 1000;
+
+// Split CSV text into rows of cells. Handles quoted cells with commas,
+// doubled quotes and line breaks in them.
+export function parseCsv(text: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let cell = "";
+	let quoted = false;
+
+	const input = text.replace(/^\uFEFF/, "");
+	for (let index = 0; index < input.length; index++) {
+		const char = input[index];
+		if (quoted) {
+			if (char === '"' && input[index + 1] === '"') {
+				cell += '"';
+				index++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				cell += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ",") {
+			row.push(cell);
+			cell = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && input[index + 1] === "\n") index++;
+			row.push(cell);
+			rows.push(row);
+			row = [];
+			cell = "";
+		} else {
+			cell += char;
+		}
+	}
+	if (cell || row.length > 0) {
+		row.push(cell);
+		rows.push(row);
+	}
+
+	// Blank lines have a single empty cell
+	return rows.filter((cells) => cells.some((value) => value.trim()));
+}
+
+function fromCsv(name: string, text: string): Dataset {
+	const [header, ...records] = parseCsv(text);
+	if (!header) throw new Error(`${name} is empty`);
+
+	const columns = header.map((key) => key.trim());
+	const duplicate = columns.find(
+		(key, index) => columns.indexOf(key) !== index,
+	);
+	if (columns.some((key) => !key)) {
+		throw new Error(`${name} has a column without a name`);
+	}
+	if (duplicate) throw new Error(`${name} has two columns named ${duplicate}`);
+
+	return {
+		name,
+		columns,
+		rows: records.map((cells) =>
+			Object.fromEntries(
+				columns.map((key, index) => [key, cells[index] ?? ""]),
+			),
+		),
+	};
+}
+
+function fromJson(name: string, text: string): Dataset {
+	let records: unknown;
+	try {
+		records = JSON.parse(text);
+	} catch {
+		throw new Error(`${name} isn't valid JSON`);
+	}
+	if (
+		!Array.isArray(records) ||
+		!records.every(
+			(record) =>
+				typeof record === "object" && record !== null && !Array.isArray(record),
+		)
+	) {
+		throw new Error(`${name} should hold an array of objects, one per row`);
+	}
+
+	const columns: string[] = [];
+	const rows = records.map((record: Record<string, unknown>) =>
+		Object.fromEntries(
+			Object.entries(record).map(([key, value]) => {
+				if (!columns.includes(key)) columns.push(key);
+				if (typeof value === "object" && value !== null) {
+					throw new Error(`${key} in ${name} has a nested value`);
+				}
+				return [
+					key,
+					value === null || value === undefined ? "" : String(value),
+				];
+			}),
+		),
+	);
+	return { name, columns, rows };
+}
+
+// Read a dataset from a .json file, or from CSV with a header row. Throws with
+// a message for the user when the file can't be used.
+export function parseDataset(name: string, text: string): Dataset {
+	const dataset = name.toLowerCase().endsWith(".json")
+		? fromJson(name, text)
+		: fromCsv(name, text);
+
+	if (dataset.rows.length === 0) throw new Error(`${name} has no rows`);
+	if (dataset.rows.length > MAX_DATASET_ROWS) {
+		throw new Error(
+			`${name} has ${dataset.rows.length} rows; at most ${MAX_DATASET_ROWS} can be merged at once`,
+		);
+	}
+	return dataset;
+}
+
+// Form field values for one row, for setFormFieldValues. Only bound fields
+// are set.
+export function rowValues(
+	row: Record<string, string>,
+	fields: BindableField[],
+): Record<string, string | string[] | null> {
+	const values: Record<string, string | string[] | null> = {};
+	for (const { field, kind, dataKey } of fields) {
+		if (!dataKey) continue;
+
+		const value = (row[dataKey] ?? "").trim();
+		const { name } = field.formField;
+		if (kind === "choice") {
+			values[name] = value ? [value] : [];
+		} else if (kind === "radio") {
+			values[name] = value || null;
+		} else {
+			values[name] = value;
+		}
+	}
+	return values;
+}
+
+function checkValue(
+	rowNumber: number,
+	value: string,
+	{ field, kind, options, dataKey }: BindableField,
+): MergeIssue | null {
+	const { name, required } = field.formField;
+	const maxLength = field.formField.get("maxLength");
+
+	let message: string | null = null;
+	if (!value) {
+		if (required) message = `${name} is required but ${dataKey} is empty`;
+	} else if (kind !== "text" && !options.includes(value)) {
+		message = `"${value}" isn't one of the options of ${name}`;
+	} else if (typeof maxLength === "number" && value.length > maxLength) {
+		message = `${dataKey} is longer than the ${maxLength} characters ${name} allows`;
+	}
+	return message ? { row: rowNumber, fieldName: name, message } : null;
+}
+
+// Problems with the bindings, then every row value that is missing or
+// doesn't fit its field
+export function validateMerge(
+	dataset: Dataset,
+	fields: BindableField[],
+): MergeIssue[] {
+	const bound = fields.filter(({ dataKey }) => dataKey);
+	if (bound.length === 0) {
+		return [
+			{
+				row: null,
+				fieldName: null,
+				message: "No fields are bound to a column",
+			},
+		];
+	}
+
+	const issues: MergeIssue[] = bound
+		.filter(({ dataKey }) => !dataset.columns.includes(dataKey ?? ""))
+		.map(({ field, dataKey }) => ({
+			row: null,
+			fieldName: field.formField.name,
+			message: `${field.formField.name} is bound to ${dataKey}, which ${dataset.name} doesn't have`,
+		}));
+
+	dataset.rows.forEach((row, index) => {
+		for (const binding of bound) {
+			const issue = checkValue(
+				index + 1,
+				(row[binding.dataKey ?? ""] ?? "").trim(),
+				binding,
+			);
+			if (issue) issues.push(issue);
+		}
+	});
+	return issues;
+}
+
+function sanitizeFileName(name: string): string {
+	return name
+		.replace(/[^\w .-]+/g, "_")
+		.trim()
+		.slice(0, 80);
+}
+
+// Numbered so files sort in row order, named after a column when one is given
+export function mergedFileName(
+	dataset: Dataset,
+	rowIndex: number,
+	nameColumn: string | null,
+	baseName: string,
+): string {
+	const number = String(rowIndex + 1).padStart(
+		String(dataset.rows.length).length,
+		"0",
+	);
+	const label = nameColumn
+		? sanitizeFileName(dataset.rows[rowIndex][nameColumn] ?? "")
+		: "";
+	return `${number}-${label || sanitizeFileName(baseName) || "document"}.pdf`;
+}
+
+// Fill a copy of the document for each of the rows and pass it on as soon as
+// it is ready, so they don't all have to be kept. `source` is the prepared
+// document as exported from the viewer.
+export async function fillDocuments(
+	source: ArrayBuffer,
+	dataset: Dataset,
+	fields: BindableField[],
+	options: {
+		rowIndexes: number[];
+		nameColumn: string | null;
+		baseName: string;
+		flatten: boolean;
+		onDocument: (document: MergedDocument) => Promise<void> | void;
+		onProgress?: (done: number, total: number) => void;
+	},
+): Promise<void> {
+	const { NutrientViewer } = window;
+	if (!NutrientViewer) throw new Error("The viewer isn't loaded");
+
+	const instance: Instance = await NutrientViewer.load({
+		headless: true,
+		document: source.slice(0),
+		baseUrl: nutrientBaseUrl(),
+	});
+	try {
+		let done = 0;
+		for (const rowIndex of options.rowIndexes) {
+			await instance.setFormFieldValues(
+				rowValues(dataset.rows[rowIndex], fields),
+			);
+			const pdf = await instance.exportPDF({ flatten: options.flatten });
+			await options.onDocument({
+				fileName: mergedFileName(
+					dataset,
+					rowIndex,
+					options.nameColumn,
+					options.baseName,
+				),
+				data: new Blob([pdf], { type: "application/pdf" }),
+			});
+			done++;
+			options.onProgress?.(done, options.rowIndexes.length);
+		}
+	} finally {
+		NutrientViewer.unload(instance);
+	}
+}
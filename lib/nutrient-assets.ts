@@ -0,0 +1,7 @@
+// The SDK is served from our own origin so the viewer works offline. The files
+// are copied from node_modules into public/ by scripts/copy-nutrient-assets.mjs.
+export const NUTRIENT_ASSETS_PATH = "/nutrient-viewer/";
+
+export function nutrientBaseUrl(): string {
+	return `${window.location.origin}${NUTRIENT_ASSETS_PATH}`;
+}
@@ -0,0 +1,203 @@
+import type {
+	FormField,
+	Instance,
+	WidgetAnnotation,
+} from "@nutrient-sdk/viewer";
+import { toError } from "@/lib/diagnostics";
+import type { Box } from "@/lib/drop-placement";
+import { getWidgetRecipientId, isFieldWidget } from "@/lib/recipients";
+
+// A field placed through the drag-and-drop flow: its form field and widget(s)
+export interface PlacedField {
+	fieldType: string;
+	recipientId: string | null;
+	pageIndex: number;
+	formField: FormField;
+	widgets: WidgetAnnotation[];
+}
+
+// Collect every field created through the field-type registry, in page order
+export async function getPlacedFields(
+	instance: Instance,
+): Promise<PlacedField[]> {
+	const formFields = await instance.getFormFields();
+	const formFieldsByName = new Map(
+		formFields.toArray().map((formField) => [formField.name, formField]),
+	);
+
+	const fields = new Map<string, PlacedField>();
+	for (let pageIndex = 0; pageIndex < instance.totalPageCount; pageIndex++) {
+		const annotations = await instance.getAnnotations(pageIndex);
+		for (const annotation of annotations.toArray()) {
+			if (!isFieldWidget(annotation)) continue;
+
+			const existing = fields.get(annotation.formFieldName);
+			if (existing) {
+				existing.widgets.push(annotation);
+				continue;
+			}
+
+			const formField = formFieldsByName.get(annotation.formFieldName);
+			if (!formField) continue;
+
+			fields.set(annotation.formFieldName, {
+				fieldType: String(annotation.customData?.fieldType),
+				recipientId: getWidgetRecipientId(annotation),
+				pageIndex,
+				formField,
+				widgets: [annotation],
+			});
+		}
+	}
+
+	return Array.from(fields.values());
+}
+
+// A placed field before and after a burst of changes. `before` is null for a
+// field that was created and `after` is null for one that was deleted.
+export interface PlacedFieldChange {
+	before: PlacedField | null;
+	after: PlacedField | null;
+}
+
+export interface PlacedFieldsWatcher {
+	// The fields as of the last burst, by form field id
+	current: () => Map<string, PlacedField>;
+	// Runs a task in turn with the diffs. The changes it makes aren't
+	// reported; the fields it leaves become the new baseline.
+	apply: (task: () => Promise<void>) => Promise<void>;
+	destroy: () => void;
+}
+
+// Changes arriving this close together (a widget and its form field, or a
+// whole template) are one burst
+const COALESCE_MS = 100;
+
+const CHANGE_EVENTS = ["annotations.change", "formFields.change"] as const;
+
+function samePlacedField(a: PlacedField, b: PlacedField): boolean {
+	return (
+		a.formField.equals(b.formField) &&
+		a.widgets.length === b.widgets.length &&
+		a.widgets.every((widget, index) => widget.equals(b.widgets[index]))
+	);
+}
+
+// Reports how the placed fields changed after each burst of changes. Instead
+// of wrapping every operation, it watches the instance and diffs the placed
+// fields, so edits made anywhere are caught. `originOf` tells who is making a
+// change; changes from different origins never share a burst.
+export function watchPlacedFields<Origin>(
+	instance: Instance,
+	originOf: () => Origin,
+	onChanges: (changes: PlacedFieldChange[], origin: Origin) => void,
+	onError: (error: Error) => void,
+): PlacedFieldsWatcher {
+	let current = new Map<string, PlacedField>();
+	// While a task is applied, its own changes must not be reported
+	let applying = false;
+	let destroyed = false;
+	let burst: { origin: Origin; timer: ReturnType<typeof setTimeout> } | null =
+		null;
+	// Serializes the diffs and applied tasks so they never interleave
+	let queue = Promise.resolve();
+
+	const enqueue = (task: () => Promise<void>) => {
+		queue = queue.then(task).catch((error) => onError(toError(error)));
+		return queue;
+	};
+
+	const snapshot = async () =>
+		new Map(
+			(await getPlacedFields(instance)).map((field) => [
+				field.formField.id,
+				field,
+			]),
+		);
+
+	const diff = (origin: Origin) =>
+		enqueue(async () => {
+			if (destroyed) return;
+			const next = await snapshot();
+			if (destroyed) return;
+
+			const changes: PlacedFieldChange[] = [];
+			for (const id of new Set([...current.keys(), ...next.keys()])) {
+				const before = current.get(id) ?? null;
+				const after = next.get(id) ?? null;
+				if (before && after && samePlacedField(before, after)) continue;
+				changes.push({ before, after });
+			}
+			current = next;
+			if (changes.length > 0) onChanges(changes, origin);
+		});
+
+	const handleChange = () => {
+		if (applying) return;
+		const origin = originOf();
+		if (burst) {
+			clearTimeout(burst.timer);
+			if (origin !== burst.origin) diff(burst.origin);
+		}
+		burst = {
+			origin,
+			timer: setTimeout(() => {
+				burst = null;
+				diff(origin);
+			}, COALESCE_MS),
+		};
+	};
+
+	const apply = (task: () => Promise<void>) =>
+		enqueue(async () => {
+			if (destroyed) return;
+			applying = true;
+			try {
+				await task();
+			} finally {
+				current = await snapshot();
+				applying = false;
+			}
+		});
+
+	// Fields that are already there aren't reported
+	enqueue(async () => {
+		current = await snapshot();
+	});
+	for (const event of CHANGE_EVENTS) {
+		instance.addEventListener(event, handleChange);
+	}
+
+	return {
+		current: () => current,
+		apply,
+		destroy: () => {
+			destroyed = true;
+			if (burst) clearTimeout(burst.timer);
+			for (const event of CHANGE_EVENTS) {
+				instance.removeEventListener(event, handleChange);
+			}
+		},
+	};
+}
+
+// Bounding box around all of a field's widgets, in page space
+export function fieldBounds({ widgets }: PlacedField): Box {
+	return boundsOf(widgets.map(({ boundingBox }) => boundingBox));
+}
+
+// Smallest box holding all of the boxes
+export function boundsOf(boxes: Box[]): Box {
+	const left = Math.min(...boxes.map((box) => box.left));
+	const top = Math.min(...boxes.map((box) => box.top));
+	const right = Math.max(...boxes.map((box) => box.left + box.width));
+	const bottom = Math.max(...boxes.map((box) => box.top + box.height));
+	return { left, top, width: right - left, height: bottom - top };
+}
+
+// The viewer's content root as a document, or null for a shadow root. An
+// iframe's document comes from another realm, so `instanceof Document` can't
+// tell them apart.
+export function asDocument(root: Document | ShadowRoot): Document | null {
+	return root.nodeType === Node.DOCUMENT_NODE ? (root as Document) : null;
+}
@@ -0,0 +1,89 @@
+// Pointer-events drag for touch and pen input, where HTML5 drag and drop
+// (`draggable` and `dataTransfer`) doesn't fire. A floating label follows the
+// pointer and the callbacks receive client coordinates of the host document.
+
+export interface PointerDragCallbacks {
+	onMove: (clientX: number, clientY: number) => void;
+	onDrop: (clientX: number, clientY: number) => void;
+	onCancel: () => void;
+}
+
+// Whether a pointerdown should start a pointer drag rather than leave the
+// gesture to HTML5 drag and drop
+export function isPointerDragInput(event: React.PointerEvent): boolean {
+	return event.pointerType === "touch" || event.pointerType === "pen";
+}
+
+function createFloatingPreview(label: string): HTMLElement {
+	const preview = document.createElement("div");
+	preview.textContent = label;
+	Object.assign(preview.style, {
+		position: "fixed",
+		left: "0",
+		top: "0",
+		padding: "6px 10px",
+		borderRadius: "6px",
+		background: "white",
+		border: "2px dashed #2563eb",
+		boxShadow: "0 4px 12px rgba(0, 0, 0, 0.15)",
+		font: "500 14px sans-serif",
+		pointerEvents: "none",
+		zIndex: "10000",
+	});
+	document.body.appendChild(preview);
+	return preview;
+}
+
+// Start dragging from a pointerdown event. Returns a function that aborts the drag.
+export function startPointerDrag(
+	event: React.PointerEvent,
+	label: string,
+	{ onMove, onDrop, onCancel }: PointerDragCallbacks,
+): () => void {
+	const { pointerId } = event;
+	const preview = createFloatingPreview(label);
+
+	const moveTo = (clientX: number, clientY: number) => {
+		// Keep the label above the finger so it stays visible
+		preview.style.transform = `translate(${clientX - preview.offsetWidth / 2}px, ${clientY - preview.offsetHeight - 24}px)`;
+	};
+	moveTo(event.clientX, event.clientY);
+
+	const handleMove = (moveEvent: PointerEvent) => {
+		if (moveEvent.pointerId !== pointerId) return;
+		moveEvent.preventDefault();
+		moveTo(moveEvent.clientX, moveEvent.clientY);
+		onMove(moveEvent.clientX, moveEvent.clientY);
+	};
+
+	const stop = () => {
+		window.removeEventListener("pointermove", handleMove);
+		window.removeEventListener("pointerup", handleUp);
+		window.removeEventListener("pointercancel", handleCancel);
+		preview.remove();
+	};
+
+	const handleUp = (upEvent: PointerEvent) => {
+		if (upEvent.pointerId !== pointerId) return;
+		stop();
+		onDrop(upEvent.clientX, upEvent.clientY);
+	};
+
+	const handleCancel = (cancelEvent: PointerEvent) => {
+		if (cancelEvent.pointerId !== pointerId) return;
+		stop();
+		onCancel();
+	};
+
+	// Pointer events over the viewer's content frame don't reach this window, so
+	// keep receiving them through pointer capture on the sidebar tile
+	(event.currentTarget as Element).setPointerCapture?.(pointerId);
+	window.addEventListener("pointermove", handleMove, { passive: false });
+	window.addEventListener("pointerup", handleUp);
+	window.addEventListener("pointercancel", handleCancel);
+
+	return () => {
+		stop();
+		onCancel();
+	};
+}
@@ -0,0 +1,277 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { placeBox } from "@/lib/drop-placement";
+import {
+	anchorBox,
+	type PlacementInstance,
+	resolvePagePoint,
+	toContentClient,
+} from "@/lib/pointer-placement";
+
+interface FakeInstanceOptions {
+	pages: { width: number; height: number }[];
+	// The page point the SDK reports for a client point, keyed by
+	// "pageIndex:x,y". Pages that aren't listed are nowhere near the point.
+	pagePoints?: Record<string, { x: number; y: number }>;
+	// Page index of the page element under every point, if any
+	pageElement?: number;
+	contentDocument?: Document | ShadowRoot;
+}
+
+class FakePoint {
+	x: number;
+	y: number;
+	constructor({ x, y }: { x: number; y: number }) {
+		this.x = x;
+		this.y = y;
+	}
+}
+
+const FAR_AWAY = { x: -10_000, y: -10_000 };
+
+// An instance whose transforms answer from a table, the way the SDK would for
+// a given zoom, rotation and page layout
+function createFakeInstance({
+	pages,
+	pagePoints = {},
+	pageElement,
+	contentDocument,
+}: FakeInstanceOptions) {
+	const element =
+		pageElement === undefined
+			? null
+			: {
+					closest: () => ({ dataset: { pageIndex: String(pageElement) } }),
+				};
+	const transform = vi.fn(
+		(point: FakePoint, pageIndex: number) =>
+			pagePoints[`${pageIndex}:${point.x},${point.y}`] ?? FAR_AWAY,
+	);
+
+	const instance = {
+		contentDocument:
+			contentDocument ??
+			({ elementFromPoint: () => element } as unknown as Document),
+		totalPageCount: pages.length,
+		pageInfoForIndex: (pageIndex: number) =>
+			(pages[pageIndex] ?? null) as ReturnType<
+				PlacementInstance["pageInfoForIndex"]
+			>,
+		transformContentClientToPageSpace:
+			transform as unknown as PlacementInstance["transformContentClientToPageSpace"],
+	};
+	return { instance, transform };
+}
+
+const LETTER = { width: 612, height: 792 };
+
+beforeEach(() => {
+	vi.stubGlobal("window", {
+		NutrientViewer: { Geometry: { Point: FakePoint } },
+	});
+	vi.stubGlobal("Node", { DOCUMENT_NODE: 9 });
+});
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+describe("resolvePagePoint", () => {
+	it("returns the page point of the page under the pointer", () => {
+		const { instance } = createFakeInstance({
+			pages: [LETTER, LETTER],
+			pagePoints: {
+				"0:100,50": { x: 100, y: 50 },
+				"1:100,50": { x: 100, y: -762 },
+			},
+		});
+		expect(resolvePagePoint(instance, 100, 50)).toEqual({
+			pageIndex: 0,
+			x: 100,
+			y: 50,
+		});
+	});
+
+	it("finds a later page when the point is off the first one", () => {
+		const { instance } = createFakeInstance({
+			pages: [LETTER, LETTER],
+			pagePoints: {
+				"0:100,862": { x: 100, y: 862 },
+				"1:100,862": { x: 100, y: 50 },
+			},
+		});
+		expect(resolvePagePoint(instance, 100, 862)).toEqual({
+			pageIndex: 1,
+			x: 100,
+			y: 50,
+		});
+	});
+
+	it("leaves zoom to the SDK's transform", () => {
+		// At zoom 2, client (200, 100) is page point (100, 50)
+		const { instance } = createFakeInstance({
+			pages: [LETTER],
+			pagePoints: { "0:200,100": { x: 100, y: 50 } },
+		});
+		expect(resolvePagePoint(instance, 200, 100)).toEqual({
+			pageIndex: 0,
+			x: 100,
+			y: 50,
+		});
+	});
+
+	it("finds points past the unrotated width of a rotated page", () => {
+		// Rotated by 90°, the letter page is drawn 792 wide
+		const { instance } = createFakeInstance({
+			pages: [LETTER],
+			pagePoints: { "0:700,50": { x: 50, y: 92 } },
+		});
+		expect(resolvePagePoint(instance, 700, 50)).toEqual({
+			pageIndex: 0,
+			x: 50,
+			y: 92,
+		});
+	});
+
+	it("tells the pages of a spread apart", () => {
+		const { instance } = createFakeInstance({
+			pages: [LETTER, LETTER],
+			pagePoints: {
+				"0:700,100": { x: 700, y: 100 },
+				"1:700,100": { x: 68, y: 100 },
+			},
+		});
+		expect(resolvePagePoint(instance, 700, 100)).toEqual({
+			pageIndex: 1,
+			x: 68,
+			y: 100,
+		});
+	});
+
+	it("counts the page edges as on the page", () => {
+		const { instance } = createFakeInstance({
+			pages: [LETTER],
+			pagePoints: { "0:612,792": { x: 612, y: 792 } },
+		});
+		expect(resolvePagePoint(instance, 612, 792)).toEqual({
+			pageIndex: 0,
+			x: 612,
+			y: 792,
+		});
+	});
+
+	it("returns null in the gap between pages", () => {
+		const { instance } = createFakeInstance({
+			pages: [LETTER, LETTER],
+			pagePoints: {
+				"0:100,802": { x: 100, y: 802 },
+				"1:100,802": { x: 100, y: -10 },
+			},
+		});
+		expect(resolvePagePoint(instance, 100, 802)).toBeNull();
+	});
+
+	it("only asks the page whose element is under the point", () => {
+		const { instance, transform } = createFakeInstance({
+			pages: [LETTER, LETTER],
+			pageElement: 1,
+			pagePoints: { "1:100,862": { x: 100, y: 50 } },
+		});
+		expect(resolvePagePoint(instance, 100, 862)).toEqual({
+			pageIndex: 1,
+			x: 100,
+			y: 50,
+		});
+		expect(transform).toHaveBeenCalledTimes(1);
+		expect(transform.mock.calls[0][1]).toBe(1);
+	});
+
+	it("ignores a page element for a page the document doesn't have", () => {
+		const { instance } = createFakeInstance({
+			pages: [LETTER],
+			pageElement: 3,
+			pagePoints: { "0:100,50": { x: 100, y: 50 } },
+		});
+		expect(resolvePagePoint(instance, 100, 50)).toEqual({
+			pageIndex: 0,
+			x: 100,
+			y: 50,
+		});
+	});
+});
+
+describe("anchorBox", () => {
+	const definition = { size: { width: 200, height: 40 } };
+
+	it("centers the field on the point by default", () => {
+		expect(anchorBox({ x: 300, y: 400 }, definition)).toEqual({
+			left: 200,
+			top: 380,
+			width: 200,
+			height: 40,
+		});
+	});
+
+	it("anchors the field at its drop offset", () => {
+		expect(
+			anchorBox(
+				{ x: 300, y: 400 },
+				{ ...definition, dropOffset: { x: 0, y: 0 } },
+			),
+		).toEqual({ left: 300, top: 400, width: 200, height: 40 });
+	});
+
+	it.each([
+		[
+			{ x: 5, y: 5 },
+			{ left: 0, top: 0 },
+		],
+		[
+			{ x: 610, y: 790 },
+			{ left: 412, top: 752 },
+		],
+		[
+			{ x: 610, y: 5 },
+			{ left: 412, top: 0 },
+		],
+	])("is kept inside the page when anchored at %o", (point, position) => {
+		const { boundingBox } = placeBox(anchorBox(point, definition), LETTER, [], {
+			snapGrid: null,
+			smartGuides: false,
+			guideThreshold: 0,
+		});
+		expect(boundingBox).toEqual({ ...position, width: 200, height: 40 });
+	});
+});
+
+describe("toContentClient", () => {
+	it("leaves points alone for a viewer in the host document", () => {
+		const { instance } = createFakeInstance({
+			pages: [LETTER],
+			contentDocument: { nodeType: 11 } as ShadowRoot,
+		});
+		expect(toContentClient(instance, 120, 80)).toEqual({
+			clientX: 120,
+			clientY: 80,
+		});
+	});
+
+	it("subtracts the offset of an iframe-based viewer", () => {
+		// The frame's document is from another realm, so not a `Document` here
+		const frameDocument = {
+			nodeType: 9,
+			defaultView: {
+				frameElement: {
+					getBoundingClientRect: () => ({ left: 300, top: 40 }),
+				},
+			},
+		} as unknown as Document;
+		const { instance } = createFakeInstance({
+			pages: [LETTER],
+			contentDocument: frameDocument,
+		});
+		expect(toContentClient(instance, 320, 100)).toEqual({
+			clientX: 20,
+			clientY: 60,
+		});
+	});
+});
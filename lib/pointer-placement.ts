@@ -0,0 +1,131 @@
+import type { Instance } from "@nutrient-sdk/viewer";
+import type { Box } from "@/lib/drop-placement";
+import type { FieldTypeDefinition } from "@/lib/field-types";
+import { asDocument } from "@/lib/placed-fields";
+
+// Resolves the page under the pointer and where a field anchored to the
+// pointer lands on it. Works in page space, so zoom, scroll, rotation and
+// page layout are all left to the SDK's coordinate transforms.
+
+// The parts of the instance placement relies on
+export type PlacementInstance = Pick<
+	Instance,
+	| "contentDocument"
+	| "totalPageCount"
+	| "pageInfoForIndex"
+	| "transformContentClientToPageSpace"
+>;
+
+// A pointer position on a page, in page points
+export interface PagePoint {
+	pageIndex: number;
+	x: number;
+	y: number;
+}
+
+const PAGE_SELECTOR = ".PSPDFKit-Page";
+
+// Convert client coordinates of the host document into the viewer's content
+// client space. An iframe-based viewer is offset by the frame's position.
+export function toContentClient(
+	instance: PlacementInstance,
+	clientX: number,
+	clientY: number,
+): { clientX: number; clientY: number } {
+	const root = asDocument(instance.contentDocument);
+	if (root && root !== window.document) {
+		const frame = root.defaultView?.frameElement;
+		if (frame) {
+			const frameRect = frame.getBoundingClientRect();
+			return {
+				clientX: clientX - frameRect.left,
+				clientY: clientY - frameRect.top,
+			};
+		}
+	}
+	return { clientX, clientY };
+}
+
+function toPageSpace(
+	instance: PlacementInstance,
+	clientX: number,
+	clientY: number,
+	pageIndex: number,
+): { x: number; y: number } | null {
+	const { NutrientViewer } = window;
+	if (!NutrientViewer) return null;
+
+	const { x, y } = instance.transformContentClientToPageSpace(
+		new NutrientViewer.Geometry.Point({ x: clientX, y: clientY }),
+		pageIndex,
+	);
+	return { x, y };
+}
+
+function isOnPage(
+	instance: PlacementInstance,
+	point: { x: number; y: number },
+	pageIndex: number,
+): boolean {
+	const pageInfo = instance.pageInfoForIndex(pageIndex);
+	return (
+		!!pageInfo &&
+		point.x >= 0 &&
+		point.y >= 0 &&
+		point.x <= pageInfo.width &&
+		point.y <= pageInfo.height
+	);
+}
+
+// Page index of the page element under the point, if the DOM has one
+function pageIndexFromElement(
+	instance: PlacementInstance,
+	clientX: number,
+	clientY: number,
+): number | null {
+	const target = instance.contentDocument.elementFromPoint(clientX, clientY);
+	const pageElement = target?.closest<HTMLElement>(PAGE_SELECTOR);
+	const pageIndex = Number.parseInt(pageElement?.dataset.pageIndex ?? "", 10);
+	return Number.isInteger(pageIndex) &&
+		pageIndex >= 0 &&
+		pageIndex < instance.totalPageCount
+		? pageIndex
+		: null;
+}
+
+// Find the page under a point in the viewer's content client space and the
+// point's position on it. Falls back to asking every page whether the point is
+// inside it, e.g. when the pointer is over an overlay rather than the page
+// element. Returns null in the gaps between pages.
+export function resolvePagePoint(
+	instance: PlacementInstance,
+	clientX: number,
+	clientY: number,
+): PagePoint | null {
+	const fromElement = pageIndexFromElement(instance, clientX, clientY);
+	if (fromElement !== null) {
+		const point = toPageSpace(instance, clientX, clientY, fromElement);
+		return point && { pageIndex: fromElement, ...point };
+	}
+
+	for (let pageIndex = 0; pageIndex < instance.totalPageCount; pageIndex++) {
+		const point = toPageSpace(instance, clientX, clientY, pageIndex);
+		if (point && isOnPage(instance, point, pageIndex)) {
+			return { pageIndex, ...point };
+		}
+	}
+	return null;
+}
+
+// The box of a field whose anchor sits at the pointer, in page space
+export function anchorBox(
+	point: { x: number; y: number },
+	{ size, dropOffset }: Pick<FieldTypeDefinition, "size" | "dropOffset">,
+): Box {
+	const anchor = dropOffset ?? { x: size.width / 2, y: size.height / 2 };
+	return {
+		left: point.x - anchor.x,
+		top: point.y - anchor.y,
+		...size,
+	};
+}
@@ -0,0 +1,163 @@
+import type {
+	AnnotationsUnion,
+	Color,
+	FormField,
+	Instance,
+	WidgetAnnotation,
+} from "@nutrient-sdk/viewer";
+import type { NutrientViewerModule } from "@/lib/field-annotations";
+
+export interface Recipient {
+	// Stable key used in form field names, e.g. `signer2`
+	id: string;
+	name: string;
+	// Hex color used to draw the recipient's widgets
+	color: string;
+}
+
+const RECIPIENT_COLORS = [
+	"#2563eb",
+	"#dc2626",
+	"#16a34a",
+	"#9333ea",
+	"#ea580c",
+	"#0891b2",
+];
+
+export function createRecipient(existing: Recipient[]): Recipient {
+	const used = existing.map((recipient) =>
+		parseInt(recipient.id.replace("signer", ""), 10),
+	);
+	const number = Math.max(0, ...used.filter(Number.isFinite)) + 1;
+	return {
+		id: `signer${number}`,
+		name: `Signer ${number}`,
+		color: RECIPIENT_COLORS[(number - 1) % RECIPIENT_COLORS.length],
+	};
+}
+
+// Form field name for a field, e.g. `signer2-signature-<id>`
+export function fieldNameFor(
+	fieldType: string,
+	uniqueId: string,
+	recipient?: Recipient | null,
+): string {
+	const base = `${fieldType.toLowerCase()}-${uniqueId}`;
+	return recipient ? `${recipient.id}-${base}` : base;
+}
+
+function hexToColor(
+	NutrientViewer: NutrientViewerModule,
+	hex: string,
+	// 0 keeps the color, 1 turns it white
+	tint = 0,
+): Color {
+	const value = parseInt(hex.replace("#", ""), 16);
+	const channel = (shift: number) => {
+		const c = (value >> shift) & 0xff;
+		return Math.round(c + (255 - c) * tint);
+	};
+	return new NutrientViewer.Color({
+		r: channel(16),
+		g: channel(8),
+		b: channel(0),
+	});
+}
+
+// Border and fill used for a recipient's widgets
+export function recipientWidgetStyle(
+	NutrientViewer: NutrientViewerModule,
+	recipient: Recipient,
+) {
+	return {
+		borderColor: hexToColor(NutrientViewer, recipient.color),
+		borderWidth: 2,
+		borderStyle: "solid" as const,
+		backgroundColor: hexToColor(NutrientViewer, recipient.color, 0.85),
+	};
+}
+
+export function isFieldWidget(
+	annotation: AnnotationsUnion,
+): annotation is WidgetAnnotation {
+	// Only widgets created through the field-type registry carry a field type
+	return (
+		"formFieldName" in annotation &&
+		typeof annotation.customData?.fieldType === "string"
+	);
+}
+
+export function getWidgetRecipientId(widget: WidgetAnnotation): string | null {
+	const recipientId = widget.customData?.recipientId;
+	return typeof recipientId === "string" ? recipientId : null;
+}
+
+// Form field names are how widgets are linked to their field, so moving a field
+// to another recipient renames the field and its widgets together, in place,
+// like the inspector does. Widget and form field IDs are kept.
+export async function reassignField(
+	instance: Instance,
+	widget: WidgetAnnotation,
+	recipient: Recipient,
+): Promise<void> {
+	const { NutrientViewer } = window;
+	if (!NutrientViewer) return;
+
+	const formFields = await instance.getFormFields();
+	const formField = formFields.find(
+		(field: FormField) => field.name === widget.formFieldName,
+	);
+	if (!formField) {
+		throw new Error(`No form field named ${widget.formFieldName}`);
+	}
+
+	const pageAnnotations = await instance.getAnnotations(widget.pageIndex);
+	const widgets = pageAnnotations.filter(
+		(annotation): annotation is WidgetAnnotation =>
+			isFieldWidget(annotation) &&
+			formField.annotationIds.includes(annotation.id),
+	);
+
+	const fieldType = String(widget.customData?.fieldType);
+	const newName = fieldNameFor(
+		fieldType,
+		formField.annotationIds.first() ?? widget.id,
+		recipient,
+	);
+	if (newName === formField.name) return;
+
+	const style = recipientWidgetStyle(NutrientViewer, recipient);
+	const updatedWidgets = widgets
+		.map((w) =>
+			w
+				.set("formFieldName", newName)
+				.set("customData", { ...w.customData, recipientId: recipient.id })
+				.merge(style),
+		)
+		.toArray();
+
+	await instance.update([...updatedWidgets, formField.set("name", newName)]);
+}
+
+// Move every field of one recipient to another, e.g. when a recipient is removed
+export async function reassignRecipientFields(
+	instance: Instance,
+	fromRecipientId: string,
+	recipient: Recipient,
+): Promise<void> {
+	for (let pageIndex = 0; pageIndex < instance.totalPageCount; pageIndex++) {
+		const annotations = await instance.getAnnotations(pageIndex);
+		const handled = new Set<string>();
+		for (const annotation of annotations.toArray()) {
+			if (
+				!isFieldWidget(annotation) ||
+				getWidgetRecipientId(annotation) !== fromRecipientId ||
+				handled.has(annotation.formFieldName)
+			) {
+				continue;
+			}
+			handled.add(annotation.formFieldName);
+			await reassignField(instance, annotation, recipient);
+		}
+	}
+}
@@ -0,0 +1,83 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { NewSignature, SavedSignature } from "@/lib/signatures";
+
+// Server-only: saved signatures are stored as one JSON file each in
+// data/signatures
+const SIGNATURES_DIR = path.join(process.cwd(), "data", "signatures");
+
+const ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+function signaturePath(id: string): string {
+	return path.join(SIGNATURES_DIR, `${id}.json`);
+}
+
+async function writeSignature(signature: SavedSignature): Promise<void> {
+	await mkdir(SIGNATURES_DIR, { recursive: true });
+	await writeFile(
+		signaturePath(signature.id),
+		JSON.stringify(signature, null, 2),
+	);
+}
+
+export async function listSignatures(): Promise<SavedSignature[]> {
+	let files: string[];
+	try {
+		files = await readdir(SIGNATURES_DIR);
+	} catch {
+		// Nothing has been saved yet
+		return [];
+	}
+
+	const signatures = await Promise.all(
+		files
+			.filter((file) => file.endsWith(".json"))
+			.map((file) => readSignature(path.basename(file, ".json"))),
+	);
+
+	return signatures
+		.filter((signature): signature is SavedSignature => signature !== null)
+		.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function readSignature(
+	id: string,
+): Promise<SavedSignature | null> {
+	if (!ID_PATTERN.test(id)) return null;
+	try {
+		return JSON.parse(await readFile(signaturePath(id), "utf8"));
+	} catch {
+		return null;
+	}
+}
+
+export async function saveSignature(
+	signature: NewSignature,
+): Promise<SavedSignature> {
+	const saved = {
+		...signature,
+		id: randomUUID(),
+		createdAt: new Date().toISOString(),
+	};
+	await writeSignature(saved);
+	return saved;
+}
+
+export async function renameSignature(
+	id: string,
+	name: string,
+): Promise<SavedSignature | null> {
+	const signature = await readSignature(id);
+	if (!signature) return null;
+
+	const renamed = { ...signature, name };
+	await writeSignature(renamed);
+	return renamed;
+}
+
+export async function deleteSignature(id: string): Promise<boolean> {
+	if (!(await readSignature(id))) return false;
+	await rm(signaturePath(id));
+	return true;
+}
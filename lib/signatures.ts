@@ -0,0 +1,247 @@
+import type { Instance } from "@nutrient-sdk/viewer";
+import type { Box } from "@/lib/drop-placement";
+import { loadImage } from "@/lib/image-drop";
+import { getPlacedFields, type PlacedField } from "@/lib/placed-fields";
+import type { PagePoint } from "@/lib/pointer-placement";
+import { getSigningSteps, hasSignature } from "@/lib/signing";
+
+export type SignatureKind = "signature" | "initials";
+
+export const SIGNATURE_KINDS: SignatureKind[] = ["signature", "initials"];
+
+// A signature or set of initials saved once and reused on any document
+export interface SavedSignature {
+	id: string;
+	name: string;
+	kind: SignatureKind;
+	// PNG data URL, trimmed to the ink
+	image: string;
+	width: number;
+	height: number;
+	// ISO 8601
+	createdAt: string;
+}
+
+export type NewSignature = Omit<SavedSignature, "id" | "createdAt">;
+
+// Drag payload carrying a saved signature's id from the sidebar to the viewer
+export const SIGNATURE_DRAG_TYPE = "application/x-saved-signature";
+
+// Field type each kind fills
+const FIELD_TYPES: Record<SignatureKind, string> = {
+	signature: "Signature",
+	initials: "Initials",
+};
+
+// Keeps saved images small enough to store as JSON
+export const MAX_SIGNATURE_IMAGE_LENGTH = 1024 * 1024;
+
+// Longest side, in pixels, of a saved image
+const MAX_IMAGE_SIDE = 600;
+
+const TYPED_FONT = '"Brush Script MT", "Segoe Script", cursive';
+const TYPED_FONT_SIZE = 72;
+
+export function matchesKind(field: PlacedField, kind: SignatureKind): boolean {
+	return field.fieldType === FIELD_TYPES[kind];
+}
+
+// Crop a canvas to the pixels that aren't transparent, or null if it is blank
+export function trimCanvas(
+	canvas: HTMLCanvasElement,
+): HTMLCanvasElement | null {
+	const context = canvas.getContext("2d");
+	if (!context) return null;
+
+	const { data, width, height } = context.getImageData(
+		0,
+		0,
+		canvas.width,
+		canvas.height,
+	);
+	let left = width;
+	let top = height;
+	let right = -1;
+	let bottom = -1;
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			if (data[(y * width + x) * 4 + 3] === 0) continue;
+			left = Math.min(left, x);
+			right = Math.max(right, x);
+			top = Math.min(top, y);
+			bottom = Math.max(bottom, y);
+		}
+	}
+	if (right < 0) return null;
+
+	const trimmed = document.createElement("canvas");
+	trimmed.width = right - left + 1;
+	trimmed.height = bottom - top + 1;
+	trimmed
+		.getContext("2d")
+		?.drawImage(
+			canvas,
+			left,
+			top,
+			trimmed.width,
+			trimmed.height,
+			0,
+			0,
+			trimmed.width,
+			trimmed.height,
+		);
+	return trimmed;
+}
+
+// Draw typed text in a handwriting font
+export function renderTypedSignature(text: string): HTMLCanvasElement {
+	const canvas = document.createElement("canvas");
+	const context = canvas.getContext("2d");
+	const font = `${TYPED_FONT_SIZE}px ${TYPED_FONT}`;
+	if (!context) return canvas;
+
+	context.font = font;
+	canvas.width = Math.ceil(context.measureText(text).width) + TYPED_FONT_SIZE;
+	canvas.height = TYPED_FONT_SIZE * 2;
+	// Resizing resets the context
+	context.font = font;
+	context.textBaseline = "middle";
+	context.fillStyle = "#000";
+	context.fillText(text, TYPED_FONT_SIZE / 2, canvas.height / 2);
+	return canvas;
+}
+
+// Draw an uploaded PNG or JPEG, scaled down to a sensible size
+export async function renderUploadedSignature(
+	file: File,
+): Promise<HTMLCanvasElement> {
+	if (file.type !== "image/png" && file.type !== "image/jpeg") {
+		throw new Error(`${file.name} isn't a PNG or JPEG image`);
+	}
+
+	const image = await loadImage(file);
+	const scale = Math.min(
+		MAX_IMAGE_SIDE / image.naturalWidth,
+		MAX_IMAGE_SIDE / image.naturalHeight,
+		1,
+	);
+	const canvas = document.createElement("canvas");
+	canvas.width = Math.round(image.naturalWidth * scale);
+	canvas.height = Math.round(image.naturalHeight * scale);
+	canvas.getContext("2d")?.drawImage(image, 0, 0, canvas.width, canvas.height);
+	return canvas;
+}
+
+// The image to save for a drawn, typed or uploaded signature, or null if
+// there is nothing on it
+export function toSignatureImage(
+	canvas: HTMLCanvasElement,
+): Pick<NewSignature, "image" | "width" | "height"> | null {
+	const trimmed = trimCanvas(canvas);
+	if (!trimmed) return null;
+
+	const image = trimmed.toDataURL("image/png");
+	if (image.length > MAX_SIGNATURE_IMAGE_LENGTH) {
+		throw new Error("The signature image is too large to save");
+	}
+	return { image, width: trimmed.width, height: trimmed.height };
+}
+
+// The largest box with the image's aspect ratio that fits in the widget,
+// centered in it
+function containBox(box: Box, width: number, height: number): Box {
+	const scale = Math.min(box.width / width, box.height / height);
+	return {
+		left: box.left + (box.width - width * scale) / 2,
+		top: box.top + (box.height - height * scale) / 2,
+		width: width * scale,
+		height: height * scale,
+	};
+}
+
+// Sign a field with a saved signature, replacing any signature already on it
+export async function fillSignatureField(
+	instance: Instance,
+	field: PlacedField,
+	signature: SavedSignature,
+): Promise<void> {
+	const { NutrientViewer } = window;
+	if (!NutrientViewer) return;
+
+	const [widget] = field.widgets;
+	const annotations = await instance.getAnnotations(widget.pageIndex);
+	const existing = annotations
+		.filter(
+			(annotation) =>
+				"isSignature" in annotation &&
+				annotation.isSignature === true &&
+				widget.boundingBox.isRectOverlapping(annotation.boundingBox),
+		)
+		.toArray();
+	if (existing.length > 0) await instance.delete(existing);
+
+	const blob = await (await fetch(signature.image)).blob();
+	const imageAttachmentId = await instance.createAttachment(blob);
+	await instance.create(
+		new NutrientViewer.Annotations.ImageAnnotation({
+			pageIndex: widget.pageIndex,
+			contentType: "image/png",
+			imageAttachmentId,
+			description: signature.name,
+			isSignature: true,
+			signatureFormFieldName: field.formField.name,
+			boundingBox: new NutrientViewer.Geometry.Rect(
+				containBox(widget.boundingBox, signature.width, signature.height),
+			),
+		}),
+	);
+}
+
+// The field under a point on a page, if any
+export async function findFieldAt(
+	instance: Instance,
+	point: PagePoint,
+): Promise<PlacedField | null> {
+	const fields = await getPlacedFields(instance);
+	return (
+		fields.find(({ widgets }) =>
+			widgets.some(
+				({ pageIndex, boundingBox: { left, top, width, height } }) =>
+					pageIndex === point.pageIndex &&
+					point.x >= left &&
+					point.x <= left + width &&
+					point.y >= top &&
+					point.y <= top + height,
+			),
+		) ?? null
+	);
+}
+
+// The field a one-click fill goes to: the selected field if it takes this
+// kind of signature, otherwise the signer's first unsigned one in tab order
+export async function findSignatureTarget(
+	instance: Instance,
+	kind: SignatureKind,
+	recipientId: string,
+): Promise<PlacedField | null> {
+	const selectedNames = new Set(
+		(instance.getSelectedAnnotations()?.toArray() ?? []).flatMap(
+			(annotation) =>
+				"formFieldName" in annotation ? [annotation.formFieldName] : [],
+		),
+	);
+	if (selectedNames.size > 0) {
+		const selected = (await getPlacedFields(instance)).find(
+			(field) =>
+				selectedNames.has(field.formField.name) && matchesKind(field, kind),
+		);
+		if (selected) return selected;
+	}
+
+	for (const { field } of await getSigningSteps(instance, recipientId)) {
+		if (matchesKind(field, kind) && !(await hasSignature(instance, field))) {
+			return field;
+		}
+	}
+	return null;
+}
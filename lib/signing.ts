@@ -0,0 +1,131 @@
+import type { Instance } from "@nutrient-sdk/viewer";
+import { getFieldType } from "@/lib/field-types";
+import { getPlacedFields, type PlacedField } from "@/lib/placed-fields";
+import { getWidgetRecipientId, isFieldWidget } from "@/lib/recipients";
+import { compareTabOrder } from "@/lib/tab-order";
+
+export interface SigningStep {
+	field: PlacedField;
+	// Finish stays blocked until every required step is filled
+	required: boolean;
+	filled: boolean;
+}
+
+const HIGHLIGHT_ID = "signing-current-field";
+const HIGHLIGHT_COLOR = "#f59e0b";
+
+// Signature and initials fields always need the signer; text fields only when
+// marked required in the inspector
+function isRequired(field: PlacedField): boolean {
+	const { NutrientViewer } = window;
+	if (!NutrientViewer) return field.formField.required;
+
+	const { SignatureFormField, TextFormField } = NutrientViewer.FormFields;
+	if (field.formField instanceof SignatureFormField) return true;
+	return field.formField instanceof TextFormField && field.formField.required;
+}
+
+// Signing a signature field doesn't set a value; it adds an ink or image
+// signature annotation on top of the widget
+export async function hasSignature(
+	instance: Instance,
+	field: PlacedField,
+): Promise<boolean> {
+	const annotations = await instance.getAnnotations(field.pageIndex);
+	return annotations.some(
+		(annotation) =>
+			"isSignature" in annotation &&
+			annotation.isSignature === true &&
+			field.widgets.some((widget) =>
+				widget.boundingBox.isRectOverlapping(annotation.boundingBox),
+			),
+	);
+}
+
+async function isFilled(
+	instance: Instance,
+	field: PlacedField,
+	values: Record<string, null | string | string[]>,
+): Promise<boolean> {
+	const { NutrientViewer } = window;
+	if (
+		NutrientViewer &&
+		field.formField instanceof NutrientViewer.FormFields.SignatureFormField
+	) {
+		return hasSignature(instance, field);
+	}
+
+	const value = values[field.formField.name];
+	if (Array.isArray(value)) return value.length > 0;
+	// Placeholders such as "TBD: Date Signed" don't count as filled in
+	const placeholder = getFieldType(field.fieldType)?.defaultValue;
+	return !!value?.trim() && value !== placeholder;
+}
+
+// The fields assigned to a signer, in tab order, with their fill state
+export async function getSigningSteps(
+	instance: Instance,
+	recipientId: string,
+): Promise<SigningStep[]> {
+	const fields = (await getPlacedFields(instance))
+		.filter((field) => field.recipientId === recipientId)
+		.sort(compareTabOrder);
+	const values = instance.getFormFieldValues();
+
+	return Promise.all(
+		fields.map(async (field) => ({
+			field,
+			required: isRequired(field),
+			filled: await isFilled(instance, field, values),
+		})),
+	);
+}
+
+// Make only the given signer's fields editable, or everything again with null
+export function restrictEditingTo(
+	instance: Instance,
+	recipientId: string | null,
+): void {
+	instance.setIsEditableAnnotation((annotation) =>
+		recipientId === null || !isFieldWidget(annotation)
+			? true
+			: getWidgetRecipientId(annotation) === recipientId,
+	);
+}
+
+// Outline the current field and scroll it into view, or clear the outline
+export function highlightField(
+	instance: Instance,
+	field: PlacedField | null,
+): void {
+	const { NutrientViewer } = window;
+	if (!NutrientViewer) return;
+
+	instance.removeCustomOverlayItem(HIGHLIGHT_ID);
+	if (!field) return;
+
+	const { boundingBox } = field.widgets[0];
+	const outline = document.createElement("div");
+	Object.assign(outline.style, {
+		// Overlay items are laid out at zoom 1 and scaled with the page
+		width: `${boundingBox.width}px`,
+		height: `${boundingBox.height}px`,
+		outline: `3px solid ${HIGHLIGHT_COLOR}`,
+		outlineOffset: "2px",
+		borderRadius: "2px",
+		pointerEvents: "none",
+	});
+
+	instance.setCustomOverlayItem(
+		new NutrientViewer.CustomOverlayItem({
+			id: HIGHLIGHT_ID,
+			node: outline,
+			pageIndex: field.pageIndex,
+			position: new NutrientViewer.Geometry.Point({
+				x: boundingBox.left,
+				y: boundingBox.top,
+			}),
+		}),
+	);
+	instance.jumpToRect(field.pageIndex, boundingBox);
+}
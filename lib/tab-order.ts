@@ -0,0 +1,48 @@
+import type { Instance } from "@nutrient-sdk/viewer";
+import type { PlacedField } from "@/lib/placed-fields";
+
+// Position in the fill order, stored in the widgets' customData, or null when
+// the field hasn't been ordered by hand
+export function getTabOrder(field: PlacedField): number | null {
+	const tabOrder = field.widgets[0].customData?.tabOrder;
+	return typeof tabOrder === "number" ? tabOrder : null;
+}
+
+function compareReadingOrder(a: PlacedField, b: PlacedField): number {
+	const boxA = a.widgets[0].boundingBox;
+	const boxB = b.widgets[0].boundingBox;
+	return (
+		a.pageIndex - b.pageIndex || boxA.top - boxB.top || boxA.left - boxB.left
+	);
+}
+
+// Page by page; within a page, hand-ordered fields first, then the rest top
+// to bottom and left to right
+export function compareTabOrder(a: PlacedField, b: PlacedField): number {
+	if (a.pageIndex !== b.pageIndex) return a.pageIndex - b.pageIndex;
+
+	const orderA = getTabOrder(a);
+	const orderB = getTabOrder(b);
+	if (orderA !== null && orderB !== null) return orderA - orderB;
+	if (orderA !== null) return -1;
+	if (orderB !== null) return 1;
+	return compareReadingOrder(a, b);
+}
+
+// Store the position of every field in `ordered` as its tab order. Only the
+// fields whose position changed are updated.
+export async function saveTabOrder(
+	instance: Instance,
+	ordered: PlacedField[],
+): Promise<void> {
+	const changes = ordered.flatMap((field, tabOrder) =>
+		getTabOrder(field) === tabOrder
+			? []
+			: field.widgets.map((widget) =>
+					widget.set("customData", { ...widget.customData, tabOrder }),
+				),
+	);
+	if (changes.length > 0) {
+		await instance.update(changes);
+	}
+}
@@ -0,0 +1,64 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { FieldTemplate, TemplateSummary } from "@/lib/templates";
+
+// Server-only: templates are stored as one JSON file each in data/templates
+const TEMPLATES_DIR = path.join(process.cwd(), "data", "templates");
+
+const ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+function templatePath(id: string): string {
+	return path.join(TEMPLATES_DIR, `${id}.json`);
+}
+
+function summarize(id: string, template: FieldTemplate): TemplateSummary {
+	return {
+		id,
+		name: template.name,
+		createdAt: template.createdAt,
+		fieldCount: template.fields.length,
+	};
+}
+
+export async function listTemplates(): Promise<TemplateSummary[]> {
+	let files: string[];
+	try {
+		files = await readdir(TEMPLATES_DIR);
+	} catch {
+		// Nothing has been saved yet
+		return [];
+	}
+
+	const summaries = await Promise.all(
+		files
+			.filter((file) => file.endsWith(".json"))
+			.map(async (file) => {
+				const id = path.basename(file, ".json");
+				const template = await readTemplate(id);
+				return template ? summarize(id, template) : null;
+			}),
+	);
+
+	return summaries
+		.filter((summary): summary is TemplateSummary => summary !== null)
+		.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function readTemplate(id: string): Promise<FieldTemplate | null> {
+	if (!ID_PATTERN.test(id)) return null;
+	try {
+		return JSON.parse(await readFile(templatePath(id), "utf8"));
+	} catch {
+		return null;
+	}
+}
+
+export async function saveTemplate(
+	template: FieldTemplate,
+): Promise<TemplateSummary> {
+	const id = randomUUID();
+	await mkdir(TEMPLATES_DIR, { recursive: true });
+	await writeFile(templatePath(id), JSON.stringify(template, null, 2));
+	return summarize(id, template);
+}
@@ -0,0 +1,297 @@
+import type { Instance } from "@nutrient-sdk/viewer";
+import { getDataKey } from "@/lib/data-binding";
+import {
+	buildFieldAnnotations,
+	type FieldAnnotations,
+	type NutrientViewerModule,
+} from "@/lib/field-annotations";
+import { type FieldTypeDefinition, getFieldType } from "@/lib/field-types";
+import {
+	boundsOf,
+	fieldBounds,
+	getPlacedFields,
+	type PlacedField,
+} from "@/lib/placed-fields";
+import type { Recipient } from "@/lib/recipients";
+import { getTabOrder } from "@/lib/tab-order";
+
+export const TEMPLATE_VERSION = 1;
+
+// Page sizes may differ by rounding between otherwise identical documents
+const PAGE_SIZE_TOLERANCE = 1;
+
+export interface TemplateRect {
+	left: number;
+	top: number;
+	width: number;
+	height: number;
+}
+
+export interface TemplateField {
+	type: string;
+	pageIndex: number;
+	// Bounding box of the whole field in page space
+	boundingBox: TemplateRect;
+	// Each widget's own box, in the order of the field's options, for fields
+	// with several widgets such as radio groups
+	widgetBoxes?: TemplateRect[];
+	recipientId: string | null;
+	// Fill order within the page, when set by hand
+	tabOrder?: number;
+	// Dataset column the field is filled from in a mail merge
+	dataKey?: string;
+	properties: {
+		label: string;
+		required: boolean;
+		readOnly: boolean;
+		defaultValue?: string;
+		options?: string[];
+	};
+}
+
+export interface FieldTemplate {
+	version: typeof TEMPLATE_VERSION;
+	name: string;
+	createdAt: string;
+	pages: { width: number; height: number }[];
+	recipients: Recipient[];
+	fields: TemplateField[];
+}
+
+// Stored templates as listed by the templates API
+export interface TemplateSummary {
+	id: string;
+	name: string;
+	createdAt: string;
+	fieldCount: number;
+}
+
+export type TemplateMismatch =
+	| { kind: "missing-page"; pageIndex: number; fieldCount: number }
+	| {
+			kind: "page-size";
+			pageIndex: number;
+			expected: { width: number; height: number };
+			actual: { width: number; height: number };
+	  }
+	| { kind: "unknown-type"; type: string; fieldCount: number };
+
+function toTemplateRect({ left, top, width, height }: TemplateRect) {
+	return { left, top, width, height };
+}
+
+function pageSizes(instance: Instance) {
+	return Array.from({ length: instance.totalPageCount }, (_, pageIndex) => {
+		const pageInfo = instance.pageInfoForIndex(pageIndex);
+		return { width: pageInfo?.width ?? 0, height: pageInfo?.height ?? 0 };
+	});
+}
+
+// Describe a placed field independently of its IDs, so it can be recreated
+export function toTemplateField(field: PlacedField): TemplateField {
+	const { fieldType, pageIndex, recipientId, formField } = field;
+	const tabOrder = getTabOrder(field);
+	const dataKey = getDataKey(field);
+	const value = formField.get("defaultValue") ?? formField.get("value");
+	const options = formField.get("options");
+	const widgets = [...field.widgets].sort(
+		(a, b) =>
+			formField.annotationIds.indexOf(a.id) -
+			formField.annotationIds.indexOf(b.id),
+	);
+	return {
+		type: fieldType,
+		pageIndex,
+		boundingBox: fieldBounds(field),
+		...(widgets.length > 1
+			? {
+					widgetBoxes: widgets.map(({ boundingBox }) =>
+						toTemplateRect(boundingBox),
+					),
+				}
+			: {}),
+		recipientId,
+		...(tabOrder !== null ? { tabOrder } : {}),
+		...(dataKey !== null ? { dataKey } : {}),
+		properties: {
+			label: formField.label,
+			required: formField.required,
+			readOnly: formField.readOnly,
+			...(typeof value === "string" && value ? { defaultValue: value } : {}),
+			...(options
+				? {
+						options: options
+							.toArray()
+							.map((option: { value: string }) => option.value),
+					}
+				: {}),
+		},
+	};
+}
+
+export async function exportTemplate(
+	instance: Instance,
+	name: string,
+	recipients: Recipient[],
+): Promise<FieldTemplate> {
+	const placedFields = await getPlacedFields(instance);
+
+	const fields = placedFields.map(toTemplateField);
+
+	return {
+		version: TEMPLATE_VERSION,
+		name,
+		createdAt: new Date().toISOString(),
+		pages: pageSizes(instance),
+		recipients,
+		fields,
+	};
+}
+
+// Everything about the document that keeps a template from applying cleanly
+export function findTemplateMismatches(
+	instance: Instance,
+	template: FieldTemplate,
+): TemplateMismatch[] {
+	const mismatches: TemplateMismatch[] = [];
+	const actualSizes = pageSizes(instance);
+
+	template.pages.forEach((expected, pageIndex) => {
+		const fieldCount = template.fields.filter(
+			(field) => field.pageIndex === pageIndex,
+		).length;
+		const actual = actualSizes[pageIndex];
+
+		if (!actual) {
+			if (fieldCount > 0) {
+				mismatches.push({ kind: "missing-page", pageIndex, fieldCount });
+			}
+			return;
+		}
+
+		if (
+			Math.abs(actual.width - expected.width) > PAGE_SIZE_TOLERANCE ||
+			Math.abs(actual.height - expected.height) > PAGE_SIZE_TOLERANCE
+		) {
+			mismatches.push({ kind: "page-size", pageIndex, expected, actual });
+		}
+	});
+
+	const unknownTypes = new Map<string, number>();
+	for (const field of template.fields) {
+		if (!getFieldType(field.type)) {
+			unknownTypes.set(field.type, (unknownTypes.get(field.type) ?? 0) + 1);
+		}
+	}
+	for (const [type, fieldCount] of unknownTypes) {
+		mismatches.push({ kind: "unknown-type", type, fieldCount });
+	}
+
+	return mismatches;
+}
+
+export function describeMismatch(mismatch: TemplateMismatch): string {
+	switch (mismatch.kind) {
+		case "missing-page":
+			return `Page ${mismatch.pageIndex + 1} does not exist, ${mismatch.fieldCount} field(s) can't be placed`;
+		case "page-size":
+			return `Page ${mismatch.pageIndex + 1} is ${Math.round(mismatch.actual.width)}×${Math.round(mismatch.actual.height)} instead of ${Math.round(mismatch.expected.width)}×${Math.round(mismatch.expected.height)}, fields may be misplaced`;
+		case "unknown-type":
+			return `Field type "${mismatch.type}" is not registered, ${mismatch.fieldCount} field(s) can't be placed`;
+	}
+}
+
+// Build new widgets and a form field, with fresh IDs and name, for a field
+// described by a template. Returns null for unregistered field types.
+export function buildTemplateField(
+	NutrientViewer: NutrientViewerModule,
+	field: TemplateField,
+	recipients: Recipient[],
+): FieldAnnotations | null {
+	const registered = getFieldType(field.type);
+	if (!registered) return null;
+
+	const definition: FieldTypeDefinition = {
+		...registered,
+		options: field.properties.options ?? registered.options,
+		defaultValue: field.properties.defaultValue ?? registered.defaultValue,
+	};
+	const { widgets, formField } = buildFieldAnnotations(
+		NutrientViewer,
+		definition,
+		{
+			pageIndex: field.pageIndex,
+			boundingBox: new NutrientViewer.Geometry.Rect(field.boundingBox),
+			recipient: recipients.find(({ id }) => id === field.recipientId),
+		},
+	);
+
+	// Put each widget back where it was, moved along with the field, e.g. when
+	// a copy is pasted elsewhere
+	const boxes = field.widgetBoxes;
+	let placedWidgets = widgets;
+	if (boxes && boxes.length === widgets.length) {
+		const { left, top } = boundsOf(boxes);
+		placedWidgets = widgets.map((widget, index) =>
+			widget.set(
+				"boundingBox",
+				new NutrientViewer.Geometry.Rect({
+					...boxes[index],
+					left: boxes[index].left + field.boundingBox.left - left,
+					top: boxes[index].top + field.boundingBox.top - top,
+				}),
+			),
+		);
+	}
+
+	const customData = {
+		...(field.tabOrder !== undefined ? { tabOrder: field.tabOrder } : {}),
+		...(field.dataKey ? { dataKey: field.dataKey } : {}),
+	};
+	return {
+		widgets:
+			Object.keys(customData).length > 0
+				? placedWidgets.map((widget) =>
+						widget.set("customData", { ...widget.customData, ...customData }),
+					)
+				: placedWidgets,
+		formField: formField.merge({
+			label: field.properties.label,
+			required: field.properties.required,
+			readOnly: field.properties.readOnly,
+		}),
+	};
+}
+
+// Recreate the template's fields on the document. Fields on missing pages or of
+// unregistered types are skipped; use findTemplateMismatches to report them.
+// Returns the number of fields created.
+export async function applyTemplate(
+	instance: Instance,
+	template: FieldTemplate,
+	recipients: Recipient[],
+): Promise<number> {
+	const { NutrientViewer } = window;
+	if (!NutrientViewer) return 0;
+
+	if (template.version !== TEMPLATE_VERSION) {
+		throw new Error(`Unsupported template version ${template.version}`);
+	}
+
+	const changes = [];
+	let created = 0;
+	for (const field of template.fields) {
+		if (field.pageIndex >= instance.totalPageCount) continue;
+
+		const built = buildTemplateField(NutrientViewer, field, recipients);
+		if (!built) continue;
+
+		changes.push(...built.widgets, built.formField);
+		created++;
+	}
+
+	if (changes.length > 0) {
+		await instance.create(changes);
+	}
+	return created;
+}
@@ -0,0 +1,223 @@
+import type {
+	FormField,
+	Instance,
+	WidgetAnnotation,
+} from "@nutrient-sdk/viewer";
+import { isSignatureField } from "@/lib/date-signed";
+import type { Box } from "@/lib/drop-placement";
+import { getPlacedFields } from "@/lib/placed-fields";
+import type { Recipient } from "@/lib/recipients";
+
+export type IssueSeverity = "error" | "warning";
+
+// A problem with the prepared document. Errors block export.
+export interface ValidationIssue {
+	id: string;
+	severity: IssueSeverity;
+	message: string;
+	// Where to jump to when the issue is clicked, if it is on a page
+	pageIndex: number | null;
+	boundingBox: Box | null;
+	// Widgets to select when the issue is clicked
+	annotationIds: string[];
+}
+
+// Widgets can extend this far past the page edge, in page points, before it
+// counts, so rounding doesn't raise issues
+const PAGE_EDGE_TOLERANCE = 0.5;
+
+function toBox({ left, top, width, height }: Box): Box {
+	return { left, top, width, height };
+}
+
+function fieldLabel(widget: WidgetAnnotation): string {
+	return widget.formFieldName || "Unnamed field";
+}
+
+async function getWidgets(instance: Instance): Promise<WidgetAnnotation[]> {
+	const widgets: WidgetAnnotation[] = [];
+	for (let pageIndex = 0; pageIndex < instance.totalPageCount; pageIndex++) {
+		const annotations = await instance.getAnnotations(pageIndex);
+		for (const annotation of annotations.toArray()) {
+			if ("formFieldName" in annotation) widgets.push(annotation);
+		}
+	}
+	return widgets;
+}
+
+function checkPageBounds(
+	instance: Instance,
+	widgets: WidgetAnnotation[],
+): ValidationIssue[] {
+	return widgets.flatMap((widget): ValidationIssue[] => {
+		const page = instance.pageInfoForIndex(widget.pageIndex);
+		const { left, top, width, height } = widget.boundingBox;
+		if (
+			!page ||
+			(left >= -PAGE_EDGE_TOLERANCE &&
+				top >= -PAGE_EDGE_TOLERANCE &&
+				left + width <= page.width + PAGE_EDGE_TOLERANCE &&
+				top + height <= page.height + PAGE_EDGE_TOLERANCE)
+		) {
+			return [];
+		}
+		return [
+			{
+				id: `bounds-${widget.id}`,
+				severity: "error",
+				message: `${fieldLabel(widget)} extends past the edge of page ${widget.pageIndex + 1}`,
+				pageIndex: widget.pageIndex,
+				boundingBox: toBox(widget.boundingBox),
+				annotationIds: [widget.id],
+			},
+		];
+	});
+}
+
+function checkOverlaps(widgets: WidgetAnnotation[]): ValidationIssue[] {
+	const issues: ValidationIssue[] = [];
+	widgets.forEach((widget, index) => {
+		for (const other of widgets.slice(index + 1)) {
+			if (
+				other.pageIndex !== widget.pageIndex ||
+				// The buttons of a radio group are one field
+				other.formFieldName === widget.formFieldName ||
+				!widget.boundingBox.isRectOverlapping(other.boundingBox)
+			) {
+				continue;
+			}
+			issues.push({
+				id: `overlap-${widget.id}-${other.id}`,
+				severity: "warning",
+				message: `${fieldLabel(widget)} overlaps ${fieldLabel(other)} on page ${widget.pageIndex + 1}`,
+				pageIndex: widget.pageIndex,
+				boundingBox: toBox(widget.boundingBox),
+				annotationIds: [widget.id, other.id],
+			});
+		}
+	});
+	return issues;
+}
+
+function checkNames(
+	formFields: FormField[],
+	widgets: WidgetAnnotation[],
+): ValidationIssue[] {
+	const issues: ValidationIssue[] = [];
+	const seen = new Set<string>();
+	const firstWidget = (formField: FormField) =>
+		widgets.find(({ id }) => formField.annotationIds.includes(id));
+
+	for (const formField of formFields) {
+		const widget = firstWidget(formField);
+		const location = {
+			pageIndex: widget?.pageIndex ?? null,
+			boundingBox: widget ? toBox(widget.boundingBox) : null,
+			annotationIds: widget ? [widget.id] : [],
+		};
+		const name = formField.name.trim();
+
+		if (!name) {
+			issues.push({
+				id: `empty-name-${formField.id}`,
+				severity: "error",
+				message: "A field has no name",
+				...location,
+			});
+		} else if (seen.has(name)) {
+			issues.push({
+				id: `duplicate-name-${formField.id}`,
+				severity: "error",
+				message: `More than one field is named ${name}`,
+				...location,
+			});
+		}
+		seen.add(name);
+
+		if (!widget) {
+			issues.push({
+				id: `no-widget-${formField.id}`,
+				severity: "error",
+				message: `${name || "A field"} has no widget on any page`,
+				...location,
+			});
+		}
+	}
+	return issues;
+}
+
+function checkOrphanWidgets(
+	formFields: FormField[],
+	widgets: WidgetAnnotation[],
+): ValidationIssue[] {
+	const names = new Set(formFields.map(({ name }) => name));
+	return widgets
+		.filter((widget) => !names.has(widget.formFieldName))
+		.map(
+			(widget): ValidationIssue => ({
+				id: `no-field-${widget.id}`,
+				severity: "error",
+				message: `The widget for ${fieldLabel(widget)} on page ${widget.pageIndex + 1} has no form field`,
+				pageIndex: widget.pageIndex,
+				boundingBox: toBox(widget.boundingBox),
+				annotationIds: [widget.id],
+			}),
+		);
+}
+
+// Every recipient needs a required signature field; an optional one can be
+// left unsigned. A document without placed fields isn't being prepared for
+// signing.
+async function checkRecipients(
+	instance: Instance,
+	recipients: Recipient[],
+): Promise<ValidationIssue[]> {
+	const placedFields = await getPlacedFields(instance);
+	if (placedFields.length === 0) return [];
+
+	const signatureFields = placedFields.filter(
+		(field) => isSignatureField(field) && field.formField.required,
+	);
+	return recipients
+		.filter(
+			(recipient) =>
+				!signatureFields.some((field) => field.recipientId === recipient.id),
+		)
+		.map(
+			(recipient): ValidationIssue => ({
+				id: `no-signature-${recipient.id}`,
+				severity: "error",
+				message: `${recipient.name} has no required signature field`,
+				pageIndex: null,
+				boundingBox: null,
+				annotationIds: [],
+			}),
+		);
+}
+
+// Check the prepared document for problems to fix before sending it. Errors
+// come before warnings, each in page order.
+export async function validateDocument(
+	instance: Instance,
+	recipients: Recipient[],
+): Promise<ValidationIssue[]> {
+	const widgets = await getWidgets(instance);
+	const formFields = (await instance.getFormFields()).toArray();
+
+	const issues = [
+		...(await checkRecipients(instance, recipients)),
+		...checkPageBounds(instance, widgets),
+		...checkOverlaps(widgets),
+		...checkNames(formFields, widgets),
+		...checkOrphanWidgets(formFields, widgets),
+	];
+	return issues.sort(
+		(a, b) =>
+			Number(a.severity === "warning") - Number(b.severity === "warning") ||
+			(a.pageIndex ?? -1) - (b.pageIndex ?? -1),
+	);
+}
+
+export function countErrors(issues: ValidationIssue[]): number {
+	return issues.filter(({ severity }) => severity === "error").length;
+}
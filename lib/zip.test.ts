@@ -0,0 +1,12 @@
+import { describe, expect, it } from "vitest";
+import { crc32 } from "@/lib/zip";
+
+describe("crc32", () => {
+	it("matches the standard check value", () => {
+		expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+	});
+
+	it("is zero for no data", () => {
+		expect(crc32(new Uint8Array())).toBe(0);
+	});
+});
@@ -0,0 +1,130 @@
+import { deflateRawSync } from "node:zlib";
+
+// Server-only: writes a zip archive with deflated entries, enough for the
+// mail-merge download without pulling in an archive library. Entries can be
+// written as they come in and the directory added at the end.
+
+export interface ZipEntry {
+	name: string;
+	data: Uint8Array;
+}
+
+// Bit 11: file names are UTF-8
+const UTF8_FLAG = 0x0800;
+const DEFLATE = 8;
+const VERSION = 20;
+
+// zlib's crc32 is only in recent Node releases, so the checksum is computed
+// here from the usual lookup table
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+	let value = index;
+	for (let bit = 0; bit < 8; bit++) {
+		value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+	}
+	return value >>> 0;
+});
+
+export function crc32(data: Uint8Array): number {
+	let crc = 0xffffffff;
+	for (const byte of data) {
+		crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Date and time in the MS-DOS format zip headers use
+function dosDateTime(date: Date): { time: number; date: number } {
+	return {
+		time:
+			(date.getHours() << 11) |
+			(date.getMinutes() << 5) |
+			Math.floor(date.getSeconds() / 2),
+		date:
+			((date.getFullYear() - 1980) << 9) |
+			((date.getMonth() + 1) << 5) |
+			date.getDate(),
+	};
+}
+
+// What the central directory needs to know about an entry already written
+export interface ZipRecord {
+	name: string;
+	checksum: number;
+	compressedSize: number;
+	size: number;
+	// Of the entry's local header in the archive
+	offset: number;
+	modified: string;
+}
+
+// Local header and deflated data of an entry written at offset
+export function zipEntry(
+	entry: ZipEntry,
+	offset: number,
+	modified = new Date(),
+): { data: Buffer; record: ZipRecord } {
+	const { time, date } = dosDateTime(modified);
+	const name = Buffer.from(entry.name, "utf8");
+	const compressed = deflateRawSync(entry.data);
+	const checksum = crc32(entry.data);
+
+	const local = Buffer.alloc(30);
+	local.writeUInt32LE(0x04034b50, 0);
+	local.writeUInt16LE(VERSION, 4);
+	local.writeUInt16LE(UTF8_FLAG, 6);
+	local.writeUInt16LE(DEFLATE, 8);
+	local.writeUInt16LE(time, 10);
+	local.writeUInt16LE(date, 12);
+	local.writeUInt32LE(checksum, 14);
+	local.writeUInt32LE(compressed.length, 18);
+	local.writeUInt32LE(entry.data.length, 22);
+	local.writeUInt16LE(name.length, 26);
+	local.writeUInt16LE(0, 28);
+
+	return {
+		data: Buffer.concat([local, name, compressed]),
+		record: {
+			name: entry.name,
+			checksum,
+			compressedSize: compressed.length,
+			size: entry.data.length,
+			offset,
+			modified: modified.toISOString(),
+		},
+	};
+}
+
+// Central directory and end record, written after the entries
+export function zipDirectory(records: ZipRecord[], offset: number): Buffer {
+	const centralParts: Buffer[] = [];
+	for (const record of records) {
+		const { time, date } = dosDateTime(new Date(record.modified));
+		const name = Buffer.from(record.name, "utf8");
+
+		const central = Buffer.alloc(46);
+		central.writeUInt32LE(0x02014b50, 0);
+		central.writeUInt16LE(VERSION, 4);
+		central.writeUInt16LE(VERSION, 6);
+		central.writeUInt16LE(UTF8_FLAG, 8);
+		central.writeUInt16LE(DEFLATE, 10);
+		central.writeUInt16LE(time, 12);
+		central.writeUInt16LE(date, 14);
+		central.writeUInt32LE(record.checksum, 16);
+		central.writeUInt32LE(record.compressedSize, 20);
+		central.writeUInt32LE(record.size, 24);
+		central.writeUInt16LE(name.length, 28);
+		// Extra field, comment, disk number and attributes stay zero
+		central.writeUInt32LE(record.offset, 42);
+		centralParts.push(central, name);
+	}
+
+	const centralDirectory = Buffer.concat(centralParts);
+	const end = Buffer.alloc(22);
+	end.writeUInt32LE(0x06054b50, 0);
+	end.writeUInt16LE(records.length, 8);
+	end.writeUInt16LE(records.length, 10);
+	end.writeUInt32LE(centralDirectory.length, 12);
+	end.writeUInt32LE(offset, 16);
+
+	return Buffer.concat([centralDirectory, end]);
+}
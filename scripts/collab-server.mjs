@@ -0,0 +1,217 @@
+// Local WebSocket relay for collaborative form building. Sessions join a room
+// per document; field changes and selections from one session are passed on
+// to the others in the room. Implements just enough of RFC 6455 to need no
+// packages: `node scripts/collab-server.mjs`, or `npm run collab`.
+import { createHash } from "node:crypto";
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.COLLAB_PORT ?? 3001);
+const HANDSHAKE_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+// Larger messages close the connection
+const MAX_MESSAGE_BYTES = 5 * 1024 * 1024;
+
+const OPCODES = {
+	continuation: 0x0,
+	text: 0x1,
+	close: 0x8,
+	ping: 0x9,
+	pong: 0xa,
+};
+
+// Room name to the sessions in it
+const rooms = new Map();
+
+function encodeFrame(opcode, payload) {
+	const length = payload.length;
+	let header;
+	if (length < 126) {
+		header = Buffer.from([0x80 | opcode, length]);
+	} else if (length < 0x10000) {
+		header = Buffer.alloc(4);
+		header[0] = 0x80 | opcode;
+		header[1] = 126;
+		header.writeUInt16BE(length, 2);
+	} else {
+		header = Buffer.alloc(10);
+		header[0] = 0x80 | opcode;
+		header[1] = 127;
+		header.writeBigUInt64BE(BigInt(length), 2);
+	}
+	return Buffer.concat([header, payload]);
+}
+
+// Pull complete frames off the front of the buffer. Returns the frames and
+// whatever is left over for the next chunk.
+function decodeFrames(buffer) {
+	const frames = [];
+	let offset = 0;
+	while (buffer.length - offset >= 2) {
+		const first = buffer[offset];
+		const second = buffer[offset + 1];
+		const masked = (second & 0x80) !== 0;
+		let length = second & 0x7f;
+		let headerLength = 2;
+
+		if (length === 126) {
+			if (buffer.length - offset < 4) break;
+			length = buffer.readUInt16BE(offset + 2);
+			headerLength = 4;
+		} else if (length === 127) {
+			if (buffer.length - offset < 10) break;
+			length = Number(buffer.readBigUInt64BE(offset + 2));
+			headerLength = 10;
+		}
+		if (length > MAX_MESSAGE_BYTES) throw new Error("Message too large");
+
+		const maskLength = masked ? 4 : 0;
+		const frameLength = headerLength + maskLength + length;
+		if (buffer.length - offset < frameLength) break;
+
+		const payload = Buffer.from(
+			buffer.subarray(offset + headerLength + maskLength, offset + frameLength),
+		);
+		if (masked) {
+			const mask = buffer.subarray(
+				offset + headerLength,
+				offset + headerLength + 4,
+			);
+			for (let index = 0; index < payload.length; index++) {
+				payload[index] ^= mask[index % 4];
+			}
+		}
+		frames.push({ fin: (first & 0x80) !== 0, opcode: first & 0x0f, payload });
+		offset += frameLength;
+	}
+	return { frames, rest: buffer.subarray(offset) };
+}
+
+function send(session, message) {
+	if (session.socket.writable) {
+		session.socket.write(
+			encodeFrame(OPCODES.text, Buffer.from(JSON.stringify(message))),
+		);
+	}
+}
+
+function othersInRoom(session) {
+	return [...(rooms.get(session.room) ?? [])].filter(
+		(other) => other !== session,
+	);
+}
+
+function leave(session) {
+	const room = rooms.get(session.room);
+	if (!room?.delete(session)) return;
+	if (room.size === 0) rooms.delete(session.room);
+	for (const other of othersInRoom(session)) {
+		send(other, { type: "leave", userId: session.user.id });
+	}
+	session.room = null;
+}
+
+function handleMessage(session, text) {
+	let message;
+	try {
+		message = JSON.parse(text);
+	} catch {
+		return;
+	}
+
+	if (message.type === "join") {
+		if (
+			typeof message.room !== "string" ||
+			typeof message.user?.id !== "string"
+		) {
+			return;
+		}
+		leave(session);
+		session.room = message.room;
+		session.user = message.user;
+		if (!rooms.has(session.room)) rooms.set(session.room, new Set());
+		rooms.get(session.room).add(session);
+
+		send(session, {
+			type: "peers",
+			peers: othersInRoom(session).map((other) => other.user),
+		});
+		for (const other of othersInRoom(session)) {
+			send(other, { type: "join", user: session.user });
+		}
+		return;
+	}
+
+	// Everything else is relayed as is, tagged with the sender
+	if (!session.room) return;
+	for (const other of othersInRoom(session)) {
+		send(other, { ...message, from: session.user.id });
+	}
+}
+
+function accept(request, socket) {
+	const key = request.headers["sec-websocket-key"];
+	if (request.headers.upgrade?.toLowerCase() !== "websocket" || !key) {
+		socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+		return;
+	}
+
+	const acceptKey = createHash("sha1")
+		.update(key + HANDSHAKE_GUID)
+		.digest("base64");
+	socket.write(
+		[
+			"HTTP/1.1 101 Switching Protocols",
+			"Upgrade: websocket",
+			"Connection: Upgrade",
+			`Sec-WebSocket-Accept: ${acceptKey}`,
+			"",
+			"",
+		].join("\r\n"),
+	);
+
+	const session = { socket, room: null, user: null };
+	let buffered = Buffer.alloc(0);
+	// Fragments of a message still being received
+	let fragments = [];
+
+	socket.on("data", (chunk) => {
+		let decoded;
+		try {
+			decoded = decodeFrames(Buffer.concat([buffered, chunk]));
+		} catch {
+			socket.destroy();
+			return;
+		}
+		buffered = decoded.rest;
+
+		for (const { fin, opcode, payload } of decoded.frames) {
+			if (opcode === OPCODES.close) {
+				socket.end(encodeFrame(OPCODES.close, payload.subarray(0, 2)));
+				return;
+			}
+			if (opcode === OPCODES.ping) {
+				socket.write(encodeFrame(OPCODES.pong, payload));
+				continue;
+			}
+			if (opcode !== OPCODES.text && opcode !== OPCODES.continuation) {
+				continue;
+			}
+
+			fragments.push(payload);
+			if (fin) {
+				handleMessage(session, Buffer.concat(fragments).toString("utf8"));
+				fragments = [];
+			}
+		}
+	});
+	socket.on("close", () => leave(session));
+	socket.on("error", () => socket.destroy());
+}
+
+const server = createServer((_request, response) => {
+	response.writeHead(426, { "Content-Type": "text/plain" });
+	response.end("Connect with a WebSocket\n");
+});
+server.on("upgrade", accept);
+server.listen(PORT, () => {
+	console.log(`Collaboration relay listening on ws://localhost:${PORT}`);
+});
@@ -0,0 +1,16 @@
+// Copy the Nutrient Web SDK assets into public/ so they are served by Next.js
+// instead of the CDN. Runs on postinstall.
+import { cpSync, existsSync, rmSync } from "node:fs";
+import path from "node:path";
+
+const source = path.join("node_modules", "@nutrient-sdk", "viewer", "dist");
+const target = path.join("public", "nutrient-viewer");
+
+if (!existsSync(source)) {
+	console.warn(`${source} not found, skipping the Nutrient asset copy`);
+	process.exit(0);
+}
+
+rmSync(target, { recursive: true, force: true });
+cpSync(source, target, { recursive: true });
+console.log(`Copied Nutrient assets to ${target}`);